@@ -0,0 +1,48 @@
+import { Layer, LayerPosition, Rect } from './types.ts';
+import { getBoundingRect, getLayerBox } from './geometry.ts';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// Moving a layer's x/y shifts its drawn bounds by the same amount, so positions are bounds offsets
+const shiftTo = (layer: Layer, bounds: Rect, x: number, y: number): LayerPosition => ({
+  id: layer.id,
+  x: layer.x + x - bounds.x,
+  y: layer.y + y - bounds.y,
+});
+
+// Line each layer's bounds up with one side or the middle of the reference rect
+export const alignLayers = (layers: Layer[], mode: AlignMode, reference: Rect): LayerPosition[] => layers.map(layer => {
+  const b = getBoundingRect(getLayerBox(layer));
+  let { x, y } = b;
+  if (mode === 'left') x = reference.x;
+  if (mode === 'center') x = reference.x + (reference.width - b.width) / 2;
+  if (mode === 'right') x = reference.x + reference.width - b.width;
+  if (mode === 'top') y = reference.y;
+  if (mode === 'middle') y = reference.y + (reference.height - b.height) / 2;
+  if (mode === 'bottom') y = reference.y + reference.height - b.height;
+  return shiftTo(layer, b, x, y);
+});
+
+// Equal gaps between the layers. The outermost two stay where they are.
+export const distributeLayers = (layers: Layer[], axis: DistributeAxis): LayerPosition[] => {
+  const pos = axis === 'horizontal' ? 'x' : 'y';
+  const size = axis === 'horizontal' ? 'width' : 'height';
+  const items = layers
+    .map(layer => ({ layer, b: getBoundingRect(getLayerBox(layer)) }))
+    .sort((a, b) => (a.b[pos] + a.b[size] / 2) - (b.b[pos] + b.b[size] / 2));
+  if (items.length < 3) return [];
+
+  const first = items[0].b;
+  const last = items[items.length - 1].b;
+  const used = items.reduce((sum, i) => sum + i.b[size], 0);
+  const gap = (last[pos] + last[size] - first[pos] - used) / (items.length - 1);
+
+  let cursor = first[pos];
+  return items.map(({ layer, b }) => {
+    const target = cursor;
+    cursor += b[size] + gap;
+    return pos === 'x' ? shiftTo(layer, b, target, b.y) : shiftTo(layer, b, b.x, target);
+  });
+};
@@ -0,0 +1,221 @@
+import { AnimationSettings, Layer, LayerType, Size, TextRun } from './types.ts';
+import { splitRunsByLine, runsToPlainText, timestampToSeconds } from './utils.ts';
+import { ImageCache, drawScene, loadLayerImages } from './renderer.ts';
+import { buildPalette, createGifWriter, hexToRgb } from './gifEncoder.ts';
+
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = {
+  order: 'stack',
+  reveal: 'line',
+  lineDelay: 600,
+  typingSpeed: 40,
+  hold: 3000,
+  fps: 20,
+  scale: 1,
+};
+
+// One animated line: a line of a text layer or of a chat block, with its time window in ms
+export interface TimelineLine {
+  layerId: string;
+  line: number;
+  length: number;
+  start: number;
+  end: number;
+}
+
+export interface Timeline {
+  lines: TimelineLine[];
+  duration: number;
+}
+
+const getLayerLines = (layer: Layer): { runs: TextRun[]; timestamp?: string }[] => {
+  if (layer.type === LayerType.TEXT) {
+    const lines = layer.runs ? splitRunsByLine(layer.runs) : layer.content.split('\n').map(text => [{ text }]);
+    return lines.map(runs => ({ runs, timestamp: layer.timestamp }));
+  }
+  if (layer.type === LayerType.CHAT_BLOCK) {
+    return layer.lines.map(l => ({ runs: l.runs || [{ text: l.content }], timestamp: l.timestamp }));
+  }
+  return [];
+};
+
+// Lines in stacking order (bottom layer first), optionally re-sorted by chatlog timestamp.
+// Untimestamped lines keep the time of the line before them so they stay next to it.
+export const buildTimeline = (layers: Layer[], settings: AnimationSettings): Timeline => {
+  let seconds = 0;
+  const entries = layers.filter(l => l.visible).flatMap(layer => getLayerLines(layer).map((line, i) => {
+    if (line.timestamp) seconds = timestampToSeconds(line.timestamp);
+    return { layerId: layer.id, line: i, length: runsToPlainText(line.runs).length, seconds };
+  }));
+  if (settings.order === 'timestamp') entries.sort((a, b) => a.seconds - b.seconds);
+
+  let time = 0;
+  const lines = entries.map(entry => {
+    const start = time + settings.lineDelay;
+    const typing = settings.reveal === 'typewriter' && settings.typingSpeed > 0 ? (entry.length / settings.typingSpeed) * 1000 : 0;
+    time = start + typing;
+    return { layerId: entry.layerId, line: entry.line, length: entry.length, start, end: time };
+  });
+  return { lines, duration: time + settings.hold };
+};
+
+const revealedChars = (line: TimelineLine, time: number) => {
+  if (time < line.start) return 0;
+  if (time >= line.end) return line.length;
+  return Math.floor(((time - line.start) / (line.end - line.start)) * line.length);
+};
+
+const sliceRuns = (runs: TextRun[], chars: number): TextRun[] => {
+  const result: TextRun[] = [];
+  let remaining = chars;
+  runs.forEach(run => {
+    if (remaining <= 0) return;
+    result.push({ ...run, text: run.text.slice(0, remaining) });
+    remaining -= run.text.length;
+  });
+  return result;
+};
+
+// Visible character count per "layerId:line", used to build frames and to spot unchanged ones
+const getRevealState = (timeline: Timeline, time: number) => {
+  const state = new Map<string, number>();
+  timeline.lines.forEach(line => state.set(`${line.layerId}:${line.line}`, revealedChars(line, time)));
+  return state;
+};
+
+// The layer list as it looks at `time`. Hidden lines stay as empty strings so nothing below them moves.
+export const getFrameLayers = (layers: Layer[], timeline: Timeline, time: number): Layer[] => {
+  const state = getRevealState(timeline, time);
+  const shown = (layerId: string, i: number, runs: TextRun[]) => sliceRuns(runs, state.get(`${layerId}:${i}`) ?? runsToPlainText(runs).length);
+
+  return layers.map(layer => {
+    if (layer.type === LayerType.TEXT) {
+      const lines = getLayerLines(layer).map((l, i) => shown(layer.id, i, l.runs));
+      const runs = lines.flatMap((line, i) => i > 0 ? [{ text: '\n' }, ...line] : line);
+      return { ...layer, content: runsToPlainText(runs), runs: layer.runs ? runs : undefined };
+    }
+    if (layer.type === LayerType.CHAT_BLOCK) {
+      return {
+        ...layer,
+        lines: layer.lines.map((l, i) => {
+          const runs = shown(layer.id, i, l.runs || [{ text: l.content }]);
+          return { ...l, content: runsToPlainText(runs), runs: l.runs ? runs : undefined };
+        }),
+      };
+    }
+    return layer;
+  });
+};
+
+// Sample times at the frame rate, merging samples where nothing changed into one longer frame
+export const getKeyFrames = (timeline: Timeline, fps: number): { time: number; duration: number }[] => {
+  const step = 1000 / fps;
+  const frames: { time: number; duration: number }[] = [];
+  let lastKey = '';
+  for (let time = 0; time < timeline.duration; time += step) {
+    const key = Array.from(getRevealState(timeline, time).values()).join(',');
+    if (frames.length > 0 && key === lastKey) {
+      frames[frames.length - 1].duration += step;
+    } else {
+      frames.push({ time, duration: step });
+      lastKey = key;
+    }
+  }
+  return frames;
+};
+
+const createFrameCanvas = (size: Size, scale: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(size.width * scale);
+  canvas.height = Math.round(size.height * scale);
+  return canvas;
+};
+
+// Chat colors are reserved in the GIF palette so text keeps its exact color
+const getTextColors = (layers: Layer[]): string[] => layers.flatMap(layer => {
+  if (layer.type === LayerType.TEXT) return [layer.color, layer.strokeColor, ...(layer.runs || []).map(r => r.color || '')];
+  if (layer.type === LayerType.CHAT_BLOCK) return [layer.strokeColor, ...layer.lines.flatMap(l => [l.color, ...(l.runs || []).map(r => r.color || '')])];
+  return [];
+});
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const renderGif = async (
+  layers: Layer[],
+  size: Size,
+  settings: AnimationSettings,
+  onProgress: (progress: number) => void = () => {}
+): Promise<Blob> => {
+  const timeline = buildTimeline(layers, settings);
+  const images = await loadLayerImages(layers);
+  const canvas = createFrameCanvas(size, settings.scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const grab = (time: number) => {
+    drawScene(ctx, getFrameLayers(layers, timeline, time), images, size, { scale: settings.scale });
+    return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  };
+
+  // The finished frame has every color the animation will use
+  const reserved = getTextColors(layers).map(hexToRgb).filter((c): c is [number, number, number] => !!c);
+  const gif = createGifWriter(canvas.width, canvas.height, buildPalette([grab(timeline.duration)], reserved));
+
+  const frames = getKeyFrames(timeline, settings.fps);
+  for (let i = 0; i < frames.length; i++) {
+    gif.addFrame(grab(frames[i].time), frames[i].duration);
+    onProgress((i + 1) / frames.length);
+    await nextTick(); // Let the dialog repaint its progress
+  }
+  return gif.finish();
+};
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const canRecordWebM = () => typeof MediaRecorder !== 'undefined' && WEBM_TYPES.some(t => MediaRecorder.isTypeSupported(t));
+
+// Plays the animation in real time into a captured canvas stream. Aborting stops the recording and rejects.
+export const recordWebM = async (
+  layers: Layer[],
+  size: Size,
+  settings: AnimationSettings,
+  onProgress: (progress: number) => void = () => {},
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const timeline = buildTimeline(layers, settings);
+  const images: ImageCache = await loadLayerImages(layers);
+  const canvas = createFrameCanvas(size, settings.scale);
+  const ctx = canvas.getContext('2d')!;
+  const mimeType = WEBM_TYPES.find(t => MediaRecorder.isTypeSupported(t))!;
+  const recorder = new MediaRecorder(canvas.captureStream(settings.fps), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+
+  return new Promise((resolve, reject) => {
+    let timer = 0;
+    const fail = (error: Error) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      reject(error);
+    };
+    const handleAbort = () => fail(new Error('Recording cancelled'));
+    if (signal?.aborted) return handleAbort();
+    signal?.addEventListener('abort', handleAbort);
+
+    recorder.onerror = (e: Event) => fail((e as Event & { error?: Error }).error || new Error('Recording failed'));
+    recorder.onstop = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    drawScene(ctx, getFrameLayers(layers, timeline, 0), images, size, { scale: settings.scale });
+    recorder.start();
+    const startedAt = performance.now();
+    const tick = () => {
+      const time = performance.now() - startedAt;
+      drawScene(ctx, getFrameLayers(layers, timeline, time), images, size, { scale: settings.scale });
+      onProgress(Math.min(1, time / timeline.duration));
+      if (time >= timeline.duration) recorder.stop();
+      else timer = window.setTimeout(tick, 1000 / settings.fps);
+    };
+    tick();
+  });
+};
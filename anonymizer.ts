@@ -0,0 +1,87 @@
+import { AnonymizerSettings, TextRun } from './types.ts';
+
+export const ANONYMIZER_PREFIXES = ['Stranger', 'Mask', 'Unknown'];
+
+export const DEFAULT_ANONYMIZER: AnonymizerSettings = {
+  prefix: 'Stranger',
+  mapping: {},
+  exempt: [],
+  applyOnImport: false,
+};
+
+const NAME = "[A-Z][a-z]+[_ ][A-Z][a-zA-Z']+";
+
+// Positions where SA-MP style logs put the speaker's name
+const SPEAKER_PATTERNS = [
+  new RegExp(`^\\*{1,2}\\s*(?:\\[[^\\]]*\\]\\s*)?(${NAME})`),
+  new RegExp(`^(${NAME})(?: \\(phone\\))?(?: says| shouts| whispers| \\(low\\))`),
+  new RegExp(`^\\(\\(\\s*(?:PM (?:from|to)\\s*)?(?:\\[\\d+\\]\\s*)?(${NAME})`),
+  new RegExp(`\\(\\(\\s*(${NAME})\\s*\\)\\)\\s*\\*?$`),
+];
+const UNDERSCORE_NAME = /\b[A-Z][a-z]+_[A-Z][a-zA-Z']+\b/g;
+
+export const normalizePlayerName = (name: string): string => name.trim().replace(/_/g, ' ');
+
+const isSameName = (a: string, b: string) => normalizePlayerName(a).toLowerCase() === normalizePlayerName(b).toLowerCase();
+
+// Speaker names plus any Firstname_Lastname token, which is unambiguous in a chatlog
+export const findPlayerNames = (text: string): string[] => {
+  const found = new Set<string>();
+  SPEAKER_PATTERNS.forEach(re => {
+    const match = text.match(re);
+    if (match) found.add(normalizePlayerName(match[1]));
+  });
+  (text.match(UNDERSCORE_NAME) || []).forEach(name => found.add(normalizePlayerName(name)));
+  return [...found];
+};
+
+const hashName = (name: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < name.length; i++) hash = ((hash << 5) + hash + name.charCodeAt(i)) >>> 0;
+  return hash;
+};
+
+// Same name always yields the same number; collisions step to the next free one
+const buildPseudonym = (name: string, prefix: string, taken: Set<string>): string => {
+  let n = 1000 + (hashName(name.toLowerCase()) % 9000);
+  while (taken.has(`${prefix} ${n}`)) n = n === 9999 ? 1000 : n + 1;
+  return `${prefix} ${n}`;
+};
+
+// Add pseudonyms for names not yet in the mapping. Existing (possibly hand-edited) entries are kept.
+export const extendMapping = (settings: AnonymizerSettings, names: string[]): AnonymizerSettings => {
+  const mapping = { ...settings.mapping };
+  const pseudonyms = Object.values(mapping).map(normalizePlayerName);
+  const taken = new Set(pseudonyms);
+  names.forEach(name => {
+    if (Object.keys(mapping).some(key => isSameName(key, name))) return;
+    if (pseudonyms.some(p => isSameName(p, name))) return; // already anonymized text
+    const pseudonym = buildPseudonym(name, settings.prefix, taken);
+    taken.add(pseudonym);
+    mapping[name] = pseudonym;
+  });
+  return { ...settings, mapping };
+};
+
+// Re-roll every pseudonym with a new prefix, keeping the same names
+export const changePrefix = (settings: AnonymizerSettings, prefix: string): AnonymizerSettings => {
+  return extendMapping({ ...settings, prefix, mapping: {} }, Object.keys(settings.mapping));
+};
+
+export const isExempt = (settings: AnonymizerSettings, name: string) => settings.exempt.some(e => isSameName(e, name));
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Replacements keep the separator style of each occurrence: John_Doe -> Stranger_1234, John Doe -> Stranger 1234
+export const anonymizeText = (text: string, settings: AnonymizerSettings): string => {
+  return Object.entries(settings.mapping).reduce((result, [name, pseudonym]) => {
+    if (isExempt(settings, name)) return result;
+    const [first, ...rest] = normalizePlayerName(name).split(' ');
+    const re = new RegExp(`\\b${escapeRegex(first)}([_ ])${escapeRegex(rest.join(' '))}\\b`, 'gi');
+    return result.replace(re, (_match, separator: string) => normalizePlayerName(pseudonym).replace(/ /g, separator));
+  }, text);
+};
+
+export const anonymizeRuns = (runs: TextRun[], settings: AnonymizerSettings): TextRun[] => {
+  return runs.map(run => ({ ...run, text: anonymizeText(run.text, settings) }));
+};
@@ -0,0 +1,93 @@
+import { ChatCategory, ChatFilterMatch, ChatFilterRule, ChatFilterSet } from './types.ts';
+import { compileRule } from './chatProfiles.ts';
+
+const STORAGE_KEY = 'ssrp.chatFilterSets';
+const ACTIVE_KEY = 'ssrp.activeChatFilterSet';
+
+export const FILTER_MATCH_LABELS: Record<ChatFilterMatch, string> = {
+  [ChatFilterMatch.REGEX]: 'Regex',
+  [ChatFilterMatch.CATEGORY]: 'Category',
+  [ChatFilterMatch.PLAYER]: 'Player',
+};
+
+const exclude = (id: string, match: ChatFilterMatch, value: string): ChatFilterRule => ({
+  id: `noise-${id}`,
+  action: 'exclude',
+  match,
+  value,
+  enabled: true,
+});
+
+export const DEFAULT_FILTER_SET: ChatFilterSet = {
+  id: 'default-noise',
+  name: 'Strip Noise',
+  rules: [
+    exclude('admin', ChatFilterMatch.CATEGORY, ChatCategory.ADMIN),
+    exclude('pm', ChatFilterMatch.CATEGORY, ChatCategory.PM),
+    exclude('anticheat', ChatFilterMatch.REGEX, 'anti-?cheat|^\\[AC\\]'),
+    exclude('connect', ChatFilterMatch.REGEX, '^(Connected to|Connecting to|Server closed the connection)'),
+    exclude('money', ChatFilterMatch.REGEX, '^[+-]?\\$\\d[\\d,]*$|PAYDAY|Paycheck'),
+  ],
+};
+
+// "John_Doe" and "John Doe" are treated as the same player
+const normalizeName = (name: string) => name.trim().replace(/_/g, ' ').toLowerCase();
+
+const matchesFilter = (rule: ChatFilterRule, text: string, category: ChatCategory): boolean => {
+  switch (rule.match) {
+    case ChatFilterMatch.CATEGORY:
+      return category === rule.value;
+    case ChatFilterMatch.PLAYER:
+      return rule.value.trim() !== '' && normalizeName(text).includes(normalizeName(rule.value));
+    case ChatFilterMatch.REGEX: {
+      const re = compileRule({ pattern: rule.value, flags: 'i' });
+      return !!re && re.test(text);
+    }
+    default:
+      return false;
+  }
+};
+
+// With any include rule active a line must match one of them; exclude rules always win
+export const isLineKept = (text: string, category: ChatCategory, rules: ChatFilterRule[]): boolean => {
+  const active = rules.filter(r => r.enabled);
+  const includes = active.filter(r => r.action === 'include');
+  if (includes.length > 0 && !includes.some(r => matchesFilter(r, text, category))) return false;
+  return !active.some(r => r.action === 'exclude' && matchesFilter(r, text, category));
+};
+
+export const loadFilterSets = (): ChatFilterSet[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : [DEFAULT_FILTER_SET];
+  } catch {
+    return [DEFAULT_FILTER_SET];
+  }
+};
+
+export const saveFilterSets = (sets: ChatFilterSet[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sets));
+};
+
+// Shared files hold a single set; ids are regenerated by the caller on import
+export const parseFilterSetFile = (json: string): ChatFilterSet | null => {
+  try {
+    const data = JSON.parse(json);
+    if (typeof data?.name !== 'string' || !Array.isArray(data?.rules)) return null;
+    const rules = data.rules.filter((r: ChatFilterRule) =>
+      (r.action === 'include' || r.action === 'exclude') &&
+      Object.values(ChatFilterMatch).includes(r.match) &&
+      typeof r.value === 'string'
+    );
+    return { id: '', name: data.name, rules: rules.map((r: ChatFilterRule) => ({ ...r, enabled: r.enabled !== false })) };
+  } catch {
+    return null;
+  }
+};
+
+export const loadActiveFilterSetId = (): string => localStorage.getItem(ACTIVE_KEY) || '';
+
+export const saveActiveFilterSetId = (id: string) => {
+  localStorage.setItem(ACTIVE_KEY, id);
+};
@@ -0,0 +1,84 @@
+import { ChatlogEntry, MergedChatLine } from './types.ts';
+import { timestampToSeconds } from './utils.ts';
+
+export interface ChatlogSource {
+  name: string;
+  entries: ChatlogEntry[];
+}
+
+interface TimedLine {
+  seconds: number;
+  order: number; // Position within its own log, keeps same-second lines in log order
+  source: number; // Index into the merged sources; two players' logs can share a file name
+  entry: ChatlogEntry;
+  key: string;
+}
+
+// Comparison key: inline color codes and spacing differ between clients
+const lineKey = (text: string) => text.replace(/\{[0-9A-Fa-f]{6}\}/g, '').replace(/\s+/g, ' ').trim();
+
+// Two different lines at the same moment that look like versions of each other,
+// e.g. one client cut the line short or logged a different speaker mask
+const looksLikeConflict = (a: string, b: string) => {
+  if (a === b) return false;
+  return a.startsWith(b) || b.startsWith(a) || (a.length > 20 && a.slice(0, 20) === b.slice(0, 20));
+};
+
+// Lines without a timestamp inherit the one above them in the same log
+const toTimedLines = (source: ChatlogSource, index: number): TimedLine[] => {
+  let seconds = 0;
+  return source.entries.map((entry, order) => {
+    if (entry.timestamp) seconds = timestampToSeconds(entry.timestamp);
+    return { seconds, order, source: index, entry, key: lineKey(entry.text) };
+  });
+};
+
+// Display names for the sources, numbered where file names repeat ("chatlog.txt (2)")
+export const getSourceLabels = (sources: ChatlogSource[]): string[] => sources.map((source, i) => {
+  const same = sources.filter(s => s.name === source.name);
+  return same.length > 1 ? `${source.name} (${same.indexOf(source) + 1})` : source.name;
+});
+
+export const hasTimestamps = (source: ChatlogSource) => source.entries.some(e => e.timestamp);
+
+// Interleave logs by timestamp and collapse lines seen by several players.
+// toleranceSeconds absorbs clock drift between the players' machines.
+export const mergeChatlogs = (sources: ChatlogSource[], toleranceSeconds: number = 2): MergedChatLine[] => {
+  const timed = sources
+    .flatMap(toTimedLines)
+    .sort((a, b) => a.seconds - b.seconds || a.order - b.order);
+
+  // Lines come in time order, so merged stays sorted by seconds. Duplicates are only looked for among lines with the same key.
+  const merged: { entry: ChatlogEntry; sources: number[]; seconds: number; key: string }[] = [];
+  const byKey = new Map<string, typeof merged>();
+  timed.forEach(line => {
+    const bucket = byKey.get(line.key) || [];
+    const duplicate = bucket.find(m => line.seconds - m.seconds <= toleranceSeconds && !m.sources.includes(line.source));
+    if (duplicate) {
+      duplicate.sources.push(line.source);
+      return;
+    }
+    const entry = { entry: line.entry, sources: [line.source], seconds: line.seconds, key: line.key };
+    merged.push(entry);
+    bucket.push(entry);
+    byKey.set(line.key, bucket);
+  });
+
+  // Conflicts can only be within the tolerance window around a line
+  const isConflicting = (index: number) => {
+    const line = merged[index];
+    const clash = (other: (typeof merged)[number]) =>
+      !other.sources.some(s => line.sources.includes(s)) && looksLikeConflict(other.key, line.key);
+    for (let i = index - 1; i >= 0 && line.seconds - merged[i].seconds <= toleranceSeconds; i--) if (clash(merged[i])) return true;
+    for (let i = index + 1; i < merged.length && merged[i].seconds - line.seconds <= toleranceSeconds; i++) if (clash(merged[i])) return true;
+    return false;
+  };
+
+  const labels = getSourceLabels(sources);
+  return merged.map((line, index) => {
+    let flag: MergedChatLine['flag'];
+    if (sources.length > 1 && line.sources.length === 1) flag = 'single-source';
+    if (isConflicting(index)) flag = 'conflict';
+    return { entry: { ...line.entry, index }, sources: line.sources.map(s => labels[s]), flag };
+  });
+};
@@ -0,0 +1,174 @@
+import { ChatCategory, ChatFormatProfile, ChatFormatRule } from './types.ts';
+
+const STORAGE_KEY = 'ssrp.chatProfiles';
+const ACTIVE_KEY = 'ssrp.activeChatProfile';
+
+export const CHAT_CATEGORY_LABELS: Record<ChatCategory, string> = {
+  [ChatCategory.TALK]: 'Talk',
+  [ChatCategory.ME]: '/me',
+  [ChatCategory.DO]: '/do',
+  [ChatCategory.LOW]: '/low',
+  [ChatCategory.SHOUT]: '/shout',
+  [ChatCategory.WHISPER]: 'Whisper',
+  [ChatCategory.PM]: '/pm',
+  [ChatCategory.RADIO]: 'Radio',
+  [ChatCategory.DEPARTMENT]: 'Department',
+  [ChatCategory.OOC]: 'OOC',
+  [ChatCategory.ADMIN]: 'Admin',
+  [ChatCategory.SERVER]: 'Server',
+  [ChatCategory.OTHER]: 'Other',
+};
+
+// Compact rule builder for the built-in tables below
+const rule = (profileId: string, category: ChatCategory, pattern: string, color: string, flags: string = 'i'): ChatFormatRule => ({
+  id: `${profileId}-${category}`,
+  category,
+  pattern,
+  flags,
+  color,
+});
+
+const GENERIC_ID = 'generic-samp';
+const LSRP_ID = 'ls-rp';
+const GTAW_ID = 'gta-world';
+const FIVEM_ID = 'fivem';
+
+export const BUILT_IN_PROFILES: ChatFormatProfile[] = [
+  {
+    id: GENERIC_ID,
+    name: 'Generic SA-MP',
+    builtIn: true,
+    defaultColor: '#FFFFFF',
+    rules: [
+      rule(GENERIC_ID, ChatCategory.ADMIN, '^(AdmCmd|AdmWarn|\\[Admin\\])', '#FF6347'),
+      rule(GENERIC_ID, ChatCategory.SERVER, '^(SERVER|\\[Server\\]|\\[INFO\\])\\s*:?', '#AAC5E3'),
+      rule(GENERIC_ID, ChatCategory.PM, '^\\(\\(\\s*PM (from|to)', '#E6E600'),
+      rule(GENERIC_ID, ChatCategory.DO, '^\\*.+\\(\\(.+\\)\\)\\s*\\*?$', '#9A9AC1'),
+      rule(GENERIC_ID, ChatCategory.ME, '^\\*\\s', '#C2A2DA'),
+      rule(GENERIC_ID, ChatCategory.RADIO, '^(\\(Radio\\)|\\[Radio\\])', '#269BD2'),
+      rule(GENERIC_ID, ChatCategory.DEPARTMENT, '^(\\*\\*\\s*\\[[A-Z]{2,}\\]|\\(Department\\)|\\[Department\\])', '#FF8282'),
+      rule(GENERIC_ID, ChatCategory.OOC, '^\\(\\(|\\)\\)$', '#A9C4E4'),
+      rule(GENERIC_ID, ChatCategory.LOW, 'says \\[low\\]:|\\(low\\)', '#C8C8C8'),
+      rule(GENERIC_ID, ChatCategory.SHOUT, '\\bshouts:', '#FFFFFF'),
+      rule(GENERIC_ID, ChatCategory.WHISPER, '\\bwhispers:', '#FFFFFF'),
+      rule(GENERIC_ID, ChatCategory.TALK, '\\bsays:', '#FFFFFF'),
+    ],
+  },
+  {
+    id: LSRP_ID,
+    name: 'LS-RP',
+    builtIn: true,
+    defaultColor: '#FFFFFF',
+    rules: [
+      rule(LSRP_ID, ChatCategory.ADMIN, '^(AdmCmd|AdmWarn|\\[Admin|Admin Message)', '#FF6347'),
+      rule(LSRP_ID, ChatCategory.SERVER, '^(SERVER|USAGE|\\[Info\\]|Welcome to)', '#AAC5E3'),
+      rule(LSRP_ID, ChatCategory.PM, '^\\(\\(\\s*PM (from|to)', '#FFFF00'),
+      rule(LSRP_ID, ChatCategory.RADIO, '^\\*\\*\\s*\\[CH:?\\s*\\d+', '#FFEC8B'),
+      rule(LSRP_ID, ChatCategory.DEPARTMENT, '^\\*\\*\\s*\\[[A-Z]{2,}\\]', '#FF8282'),
+      rule(LSRP_ID, ChatCategory.DO, '^\\*.+\\(\\(.+\\)\\)\\s*\\*?$', '#C2A2DA'),
+      rule(LSRP_ID, ChatCategory.ME, '^\\*\\s', '#C2A2DA'),
+      rule(LSRP_ID, ChatCategory.OOC, '^\\(\\(|\\)\\)$', '#E6E6E6'),
+      rule(LSRP_ID, ChatCategory.LOW, 'says \\[low\\]:|\\(low\\)', '#C8C8C8'),
+      rule(LSRP_ID, ChatCategory.WHISPER, '\\bwhispers:', '#EEE8AA'),
+      rule(LSRP_ID, ChatCategory.SHOUT, '\\bshouts:', '#FFFFFF'),
+      rule(LSRP_ID, ChatCategory.TALK, '\\bsays( \\(phone\\))?:', '#FFFFFF'),
+    ],
+  },
+  {
+    id: GTAW_ID,
+    name: 'GTA World',
+    builtIn: true,
+    defaultColor: '#FFFFFF',
+    rules: [
+      rule(GTAW_ID, ChatCategory.ADMIN, '^(\\[Admin|AdmCmd|\\[Staff)', '#FF6347'),
+      rule(GTAW_ID, ChatCategory.SERVER, '^(SERVER:|\\[!\\]|\\[Info\\])', '#AAC5E3'),
+      rule(GTAW_ID, ChatCategory.PM, '^\\(\\(\\s*PM (from|to)', '#EEE854'),
+      rule(GTAW_ID, ChatCategory.RADIO, '^\\*\\*\\s*\\[S:\\s*\\d+\\s*\\|\\s*CH:', '#FFEC8B'),
+      rule(GTAW_ID, ChatCategory.DEPARTMENT, '^\\*\\*\\s*\\[(LSPD|LSFD|LSSD|SADCR|GOV)', '#FF8282'),
+      rule(GTAW_ID, ChatCategory.DO, '^\\*.+\\(\\(.+\\)\\)\\s*\\*?$', '#C2A2DA'),
+      rule(GTAW_ID, ChatCategory.ME, '^\\*\\s', '#C2A2DA'),
+      rule(GTAW_ID, ChatCategory.OOC, '^\\(\\(|\\)\\)$', '#E6E6E6'),
+      rule(GTAW_ID, ChatCategory.LOW, 'says \\[low\\]:|\\(low\\)', '#C8C8C8'),
+      rule(GTAW_ID, ChatCategory.WHISPER, '\\bwhispers:', '#EEE8AA'),
+      rule(GTAW_ID, ChatCategory.SHOUT, '\\bshouts:', '#FFFFFF'),
+      rule(GTAW_ID, ChatCategory.TALK, '\\bsays( \\(phone\\))?:', '#FFFFFF'),
+    ],
+  },
+  {
+    id: FIVEM_ID,
+    name: 'FiveM-style',
+    builtIn: true,
+    defaultColor: '#FFFFFF',
+    rules: [
+      rule(FIVEM_ID, ChatCategory.ADMIN, '^\\[(Admin|Staff)\\]', '#FF6347'),
+      rule(FIVEM_ID, ChatCategory.SERVER, '^\\[(SYSTEM|Server)\\]', '#AAC5E3'),
+      rule(FIVEM_ID, ChatCategory.PM, '^\\[(DM|PM)\\]', '#E6E600'),
+      rule(FIVEM_ID, ChatCategory.RADIO, '^\\[Radio[^\\]]*\\]', '#269BD2'),
+      rule(FIVEM_ID, ChatCategory.DEPARTMENT, '^\\[(Dept|Dispatch)\\]', '#FF8282'),
+      rule(FIVEM_ID, ChatCategory.DO, '^\\[Do\\]', '#9A9AC1'),
+      rule(FIVEM_ID, ChatCategory.ME, '^\\[Me\\]|^\\*\\s', '#C2A2DA'),
+      rule(FIVEM_ID, ChatCategory.OOC, '^\\[(OOC|LOOC)\\]', '#A9C4E4'),
+      rule(FIVEM_ID, ChatCategory.LOW, '^\\[Low\\]', '#C8C8C8'),
+      rule(FIVEM_ID, ChatCategory.SHOUT, '^\\[Shout\\]', '#FFFFFF'),
+      rule(FIVEM_ID, ChatCategory.WHISPER, '^\\[Whisper\\]', '#EEE8AA'),
+      rule(FIVEM_ID, ChatCategory.TALK, '^\\[(Say|Local)\\]|\\bsays:|^[^\\[(:]{1,40}:\\s', '#FFFFFF'),
+    ],
+  },
+];
+
+export const DEFAULT_PROFILE = BUILT_IN_PROFILES[0];
+
+// Least recently used patterns are dropped first; editing a rule compiles every intermediate pattern
+const REGEX_CACHE_SIZE = 200;
+const regexCache = new Map<string, RegExp | null>();
+
+// Compiles a rule's pattern, returning null for invalid user input instead of throwing
+export const compileRule = (r: Pick<ChatFormatRule, 'pattern' | 'flags'>): RegExp | null => {
+  const key = `${r.flags}/${r.pattern}`;
+  if (regexCache.has(key)) {
+    const cached = regexCache.get(key)!;
+    regexCache.delete(key);
+    regexCache.set(key, cached); // Map order doubles as recency order
+    return cached;
+  }
+  let compiled: RegExp | null = null;
+  try {
+    compiled = r.pattern ? new RegExp(r.pattern, r.flags.replace(/[gy]/g, '')) : null;
+  } catch {
+    compiled = null;
+  }
+  regexCache.set(key, compiled);
+  if (regexCache.size > REGEX_CACHE_SIZE) regexCache.delete(regexCache.keys().next().value!);
+  return compiled;
+};
+
+export const matchChatRule = (text: string, profile: ChatFormatProfile): ChatFormatRule | null => {
+  for (const r of profile.rules) {
+    const re = compileRule(r);
+    if (re && re.test(text)) return r;
+  }
+  return null;
+};
+
+// Custom profiles are kept in localStorage; built-ins always come from code
+export const loadCustomProfiles = (): ChatFormatProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.map((p: ChatFormatProfile) => ({ ...p, builtIn: false })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomProfiles = (profiles: ChatFormatProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles.filter(p => !p.builtIn)));
+};
+
+export const loadActiveProfileId = (): string => {
+  return localStorage.getItem(ACTIVE_KEY) || DEFAULT_PROFILE.id;
+};
+
+export const saveActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_KEY, id);
+};
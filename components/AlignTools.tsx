@@ -0,0 +1,54 @@
+import React from 'react';
+import {
+  AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter,
+} from 'lucide-react';
+import { AlignMode, DistributeAxis } from '../alignment.ts';
+
+interface AlignToolsProps {
+  count: number; // Selected layers; one aligns to the canvas
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+}
+
+const ALIGN_BUTTONS: { mode: AlignMode; title: string; icon: React.FC<{ className?: string }> }[] = [
+  { mode: 'left', title: 'Align left', icon: AlignStartVertical },
+  { mode: 'center', title: 'Align horizontal centers', icon: AlignCenterVertical },
+  { mode: 'right', title: 'Align right', icon: AlignEndVertical },
+  { mode: 'top', title: 'Align top', icon: AlignStartHorizontal },
+  { mode: 'middle', title: 'Align vertical centers', icon: AlignCenterHorizontal },
+  { mode: 'bottom', title: 'Align bottom', icon: AlignEndHorizontal },
+];
+
+const AlignTools: React.FC<AlignToolsProps> = ({ count, onAlign, onDistribute }) => {
+  const canDistribute = count >= 3;
+  const buttonClass = 'flex-1 flex justify-center py-1.5 rounded bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700 disabled:opacity-30 disabled:hover:bg-zinc-800';
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-medium text-zinc-400 uppercase">{count > 1 ? 'Align' : 'Align to Canvas'}</label>
+      <div className="flex space-x-1">
+        {ALIGN_BUTTONS.map(({ mode, title, icon: Icon }) => (
+          <button key={mode} onClick={() => onAlign(mode)} title={title} className={buttonClass}>
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+      {count > 1 && (
+        <div className="flex space-x-1">
+          <button onClick={() => onDistribute('horizontal')} disabled={!canDistribute} title="Distribute horizontally" className={buttonClass}>
+            <AlignHorizontalDistributeCenter className="w-4 h-4" />
+          </button>
+          <button onClick={() => onDistribute('vertical')} disabled={!canDistribute} title="Distribute vertically" className={buttonClass}>
+            <AlignVerticalDistributeCenter className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {count === 2 && (
+        <p className="text-[10px] text-zinc-500">Select three or more layers to distribute them.</p>
+      )}
+    </div>
+  );
+};
+
+export default AlignTools;
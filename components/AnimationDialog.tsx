@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { X, Play, Pause, Film } from 'lucide-react';
+import { AnimationSettings, Composition } from '../types.ts';
+import { downloadBlob } from '../utils.ts';
+import { ImageCache, drawScene, loadLayerImages } from '../renderer.ts';
+import { buildTimeline, getFrameLayers, renderGif, recordWebM, canRecordWebM } from '../animation.ts';
+
+interface AnimationDialogProps {
+  composition: Composition;
+  settings: AnimationSettings;
+  onChange: (settings: AnimationSettings) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_WIDTH = 480;
+
+const AnimationDialog: React.FC<AnimationDialogProps> = ({ composition, settings, onChange, onClose }) => {
+  const { layers, canvasSize } = composition;
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const [images, setImages] = useState<ImageCache>({});
+  const [playing, setPlaying] = useState(true);
+  const [busy, setBusy] = useState<'gif' | 'webm' | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const recording = useRef<AbortController | null>(null);
+
+  const timeline = useMemo(() => buildTimeline(layers, settings), [layers, settings]);
+  const previewScale = Math.min(1, PREVIEW_WIDTH / canvasSize.width);
+
+  // Without its images the preview still shows the text reveal
+  useEffect(() => {
+    let cancelled = false;
+    loadLayerImages(layers)
+      .then(loaded => { if (!cancelled) { setImages(loaded); setImageError(null); } })
+      .catch(err => { if (!cancelled) { setImages({}); setImageError(err instanceof Error ? err.message : String(err)); } });
+    return () => { cancelled = true; };
+  }, [layers]);
+
+  // A recording still running when the dialog goes away is stopped and thrown away
+  useEffect(() => () => recording.current?.abort(), []);
+
+  // Looping preview through the same frame builder the exports use
+  useEffect(() => {
+    const ctx = previewRef.current?.getContext('2d');
+    if (!ctx) return;
+    if (!playing) {
+      drawScene(ctx, getFrameLayers(layers, timeline, timeline.duration), images, canvasSize, { scale: previewScale });
+      return;
+    }
+    let frame = 0;
+    const startedAt = performance.now();
+    const draw = () => {
+      const time = (performance.now() - startedAt) % Math.max(1, timeline.duration);
+      drawScene(ctx, getFrameLayers(layers, timeline, time), images, canvasSize, { scale: previewScale });
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [layers, timeline, images, canvasSize, previewScale, playing]);
+
+  const update = (updates: Partial<AnimationSettings>) => onChange({ ...settings, ...updates });
+
+  const exportAs = async (format: 'gif' | 'webm') => {
+    setBusy(format);
+    setProgress(0);
+    const controller = new AbortController();
+    recording.current = controller;
+    try {
+      const blob = format === 'gif'
+        ? await renderGif(layers, canvasSize, settings, setProgress)
+        : await recordWebM(layers, canvasSize, settings, setProgress, controller.signal);
+      downloadBlob(blob, `ssrp-animation-${Date.now()}.${format}`);
+    } catch (err) {
+      if (!controller.signal.aborted) alert(`Export failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      recording.current = null;
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-8">
+      <div className="w-full max-w-3xl max-h-full bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-zinc-200">Animated Reveal</h3>
+            <p className="text-xs text-zinc-500">{timeline.lines.length} lines · {(timeline.duration / 1000).toFixed(1)}s</p>
+          </div>
+          <button onClick={onClose} disabled={!!busy} className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded disabled:opacity-30">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0 overflow-y-auto">
+          <div className="p-4 flex flex-col items-center gap-2">
+            <canvas
+              ref={previewRef}
+              width={Math.round(canvasSize.width * previewScale)}
+              height={Math.round(canvasSize.height * previewScale)}
+              className="bg-black border border-zinc-700"
+            />
+            {imageError && <p className="text-xs text-red-400">Images could not be loaded for the preview: {imageError}</p>}
+            <button onClick={() => setPlaying(!playing)} className="flex items-center px-3 py-1 text-xs text-zinc-400 hover:text-white">
+              {playing ? <Pause className="w-3.5 h-3.5 mr-1" /> : <Play className="w-3.5 h-3.5 mr-1" />}
+              {playing ? 'Pause' : 'Play'}
+            </button>
+          </div>
+
+          <div className="p-4 flex-1 space-y-4 border-l border-zinc-800">
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-zinc-400 uppercase">Order</label>
+              <div className="flex items-center space-x-2">
+                {(['stack', 'timestamp'] as const).map(order => (
+                  <button
+                    key={order}
+                    onClick={() => update({ order })}
+                    className={`flex-1 py-1 text-xs rounded border ${settings.order === order ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}
+                  >
+                    {order === 'stack' ? 'Layer Order' : 'Timestamp'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-zinc-400 uppercase">Reveal</label>
+              <div className="flex items-center space-x-2">
+                {(['line', 'typewriter'] as const).map(reveal => (
+                  <button
+                    key={reveal}
+                    onClick={() => update({ reveal })}
+                    className={`flex-1 py-1 text-xs rounded border ${settings.reveal === reveal ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}
+                  >
+                    {reveal === 'line' ? 'Line by Line' : 'Typewriter'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className="text-xs text-zinc-500 mb-1 block">Line Delay (ms)</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="50"
+                  value={settings.lineDelay}
+                  onChange={(e) => update({ lineDelay: Math.max(0, Number(e.target.value)) })}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+                />
+              </div>
+              <div>
+                <span className="text-xs text-zinc-500 mb-1 block">Typing (chars/s)</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={settings.typingSpeed}
+                  disabled={settings.reveal !== 'typewriter'}
+                  onChange={(e) => update({ typingSpeed: Math.max(1, Number(e.target.value)) })}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200 disabled:opacity-50"
+                />
+              </div>
+              <div>
+                <span className="text-xs text-zinc-500 mb-1 block">Hold at End (ms)</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="100"
+                  value={settings.hold}
+                  onChange={(e) => update({ hold: Math.max(0, Number(e.target.value)) })}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+                />
+              </div>
+              <div>
+                <span className="text-xs text-zinc-500 mb-1 block">Frame Rate</span>
+                <select
+                  value={settings.fps}
+                  onChange={(e) => update({ fps: Number(e.target.value) })}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+                >
+                  {[10, 15, 20, 30].map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-zinc-400 uppercase">Scale</label>
+              <div className="flex items-center space-x-2">
+                {[0.5, 0.75, 1].map(scale => (
+                  <button
+                    key={scale}
+                    onClick={() => update({ scale })}
+                    className={`flex-1 py-1 text-xs rounded border ${settings.scale === scale ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}
+                  >
+                    {scale}x
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex items-center justify-between">
+          <span className="text-xs text-zinc-500">
+            {busy === 'gif' && `Encoding GIF… ${Math.round(progress * 100)}%`}
+            {busy === 'webm' && `Recording WebM… ${Math.round(progress * 100)}%`}
+            {!busy && `${Math.round(canvasSize.width * settings.scale)} × ${Math.round(canvasSize.height * settings.scale)}`}
+          </span>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => exportAs('webm')}
+              disabled={!!busy || timeline.lines.length === 0 || !canRecordWebM()}
+              title={canRecordWebM() ? 'Recorded in real time' : 'This browser cannot record WebM'}
+              className="px-4 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed text-zinc-200 text-sm rounded border border-zinc-700"
+            >
+              Export WebM
+            </button>
+            <button
+              onClick={() => exportAs('gif')}
+              disabled={!!busy || timeline.lines.length === 0}
+              className="flex items-center px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold rounded shadow"
+            >
+              <Film className="w-4 h-4 mr-2" />
+              Export GIF
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnimationDialog;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Search, EyeOff, Trash2 } from 'lucide-react';
+import { AnonymizerSettings } from '../types.ts';
+import { ANONYMIZER_PREFIXES, changePrefix, isExempt, normalizePlayerName } from '../anonymizer.ts';
+
+interface AnonymizerPanelProps {
+  settings: AnonymizerSettings;
+  onChange: (settings: AnonymizerSettings) => void;
+  onScan: () => void;
+  onApply: () => void;
+}
+
+const AnonymizerPanel: React.FC<AnonymizerPanelProps> = ({ settings, onChange, onScan, onApply }) => {
+  const [exemptInput, setExemptInput] = useState('');
+  const names = Object.keys(settings.mapping).sort();
+
+  const toggleExempt = (name: string) => {
+    const exempt = isExempt(settings, name)
+      ? settings.exempt.filter(e => normalizePlayerName(e).toLowerCase() !== name.toLowerCase())
+      : [...settings.exempt, name];
+    onChange({ ...settings, exempt });
+  };
+
+  const addExempt = () => {
+    const name = normalizePlayerName(exemptInput);
+    if (!name || isExempt(settings, name)) return;
+    onChange({ ...settings, exempt: [...settings.exempt, name] });
+    setExemptInput('');
+  };
+
+  const removeName = (name: string) => {
+    const mapping = { ...settings.mapping };
+    delete mapping[name];
+    onChange({ ...settings, mapping });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-zinc-500">Pseudonym</span>
+        <select
+          value={settings.prefix}
+          onChange={(e) => onChange(changePrefix(settings, e.target.value))}
+          className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200"
+        >
+          {ANONYMIZER_PREFIXES.map(p => <option key={p} value={p}>{p}_1234</option>)}
+        </select>
+      </div>
+
+      <label className="flex items-center text-xs text-zinc-300 cursor-pointer">
+        <input type="checkbox" checked={settings.applyOnImport} onChange={(e) => onChange({ ...settings, applyOnImport: e.target.checked })} className="mr-2 accent-indigo-500" />
+        Anonymize new chat lines automatically
+      </label>
+
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={exemptInput}
+          placeholder="Own character (exempt)"
+          onChange={(e) => setExemptInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addExempt()}
+          className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200"
+        />
+        <button onClick={addExempt} className="px-2 py-1 text-xs text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded border border-zinc-700">Exempt</button>
+      </div>
+
+      {names.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {names.map(name => {
+            const exempt = isExempt(settings, name);
+            return (
+              <div key={name} className={`flex items-center gap-1 bg-zinc-800/60 rounded p-1 ${exempt ? 'opacity-50' : ''}`}>
+                <span className="flex-1 min-w-0 truncate text-[10px] text-zinc-300" title={name}>{name}</span>
+                <input
+                  type="text"
+                  value={settings.mapping[name]}
+                  disabled={exempt}
+                  onChange={(e) => onChange({ ...settings, mapping: { ...settings.mapping, [name]: e.target.value } })}
+                  className="w-24 bg-zinc-900 border border-zinc-700 rounded px-1 text-[10px] font-mono text-zinc-300"
+                />
+                <button onClick={() => toggleExempt(name)} title={exempt ? 'Anonymize this name' : 'Exempt (own character)'} className={`shrink-0 ${exempt ? 'text-indigo-400' : 'text-zinc-500 hover:text-white'}`}>
+                  <EyeOff className="w-3 h-3" />
+                </button>
+                <button onClick={() => removeName(name)} className="shrink-0 text-red-400 hover:text-red-300">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onScan} className="flex items-center justify-center py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-xs rounded border border-zinc-700">
+          <Search className="w-3 h-3 mr-1" /> Scan All Pages
+        </button>
+        <button onClick={onApply} disabled={names.length === 0} className="py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs font-semibold rounded">
+          Apply to All Pages
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AnonymizerPanel;
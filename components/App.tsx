@@ -1,29 +1,101 @@
-import React, { useState } from 'react';
-import { Layer, LayerType, TextLayer, ImageLayer } from '../types.ts';
-import { generateId, downloadCanvas } from '../utils.ts';
+import React, { useState, useEffect, useRef } from 'react';
+import { Layer, LayerType, TextLayer, ImageLayer, ChatBlockLayer, Composition, ParsedChatLine, AnonymizerSettings, ExportSettings, AnimationSettings, GuideSettings, LayerPosition, Project, Size } from '../types.ts';
+import { generateId, cloneLayer, isTextEntryTarget, ownsKeyboard, downloadBlob, canvasToBlob, CHAT_LINE_DEFAULTS, DEFAULT_EXPORT_SETTINGS } from '../utils.ts';
+import { renderToCanvas } from '../renderer.ts';
+import { exportComposition, getPageExportSettings } from '../exporter.ts';
+import { DEFAULT_ANIMATION_SETTINGS } from '../animation.ts';
+import { PROJECT_FILE_EXTENSION, ProjectFileError, parseProject, readProjectFromPng, serializeProject } from '../project.ts';
+import { History, createHistory, currentState, pushHistory, beginGesture, endGesture, undo, redo, jumpTo, canUndo, canRedo } from '../history.ts';
+import { listProjects, saveProject, loadProject, markSessionOpen, markSessionClosed, findCrashedSessionId } from '../projectStore.ts';
+import { loadGuideSettings, saveGuideSettings } from '../snapping.ts';
+import { AlignMode, DistributeAxis, alignLayers, distributeLayers } from '../alignment.ts';
+import { getLayersBounds } from '../geometry.ts';
+import { ViewFit, ViewRequest, ZOOM_STEP, clampZoom } from '../viewport.ts';
+import { Keymap, ShortcutAction, NUDGE_STEP, NUDGE_STEP_FAR, eventToCombo, findShortcut, loadKeymap, saveKeymap } from '../keymap.ts';
+import { copyLayers, readCopiedLayers } from '../layerClipboard.ts';
+import { DEFAULT_ANONYMIZER, anonymizeRuns, anonymizeText, extendMapping, findPlayerNames } from '../anonymizer.ts';
 import Toolbar from './Toolbar.tsx';
 import LayerManager from './LayerManager.tsx';
 import CanvasRenderer from './CanvasRenderer.tsx';
 import PropertiesPanel from './PropertiesPanel.tsx';
+import PageTabs from './PageTabs.tsx';
+import ExportDialog from './ExportDialog.tsx';
+import AnimationDialog from './AnimationDialog.tsx';
+import TextExportDialog from './TextExportDialog.tsx';
+import ProjectBrowser from './ProjectBrowser.tsx';
+import ShortcutsDialog from './ShortcutsDialog.tsx';
+
+const DEFAULT_CANVAS_SIZE: Size = { width: 1280, height: 720 }; // Default 720p
+const DEFAULT_PROJECT_NAME = 'Untitled Project';
+const AUTOSAVE_DELAY = 1000;
+const THUMBNAIL_WIDTH = 320;
+
+const createComposition = (name: string, canvasSize: Size, layers: Layer[] = []): Composition => ({
+  id: generateId(),
+  name,
+  canvasSize,
+  layers,
+});
 
 const App: React.FC = () => {
-  const [layers, setLayers] = useState<Layer[]>([]);
-  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [history, setHistory] = useState<History<Composition[]>>(() => createHistory([createComposition('Page 1', DEFAULT_CANVAS_SIZE)]));
+  const compositions = currentState<Composition[]>(history);
+  const [activeCompositionId, setActiveCompositionId] = useState(compositions[0].id);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [zoom, setZoom] = useState(1);
-  const [canvasSize, setCanvasSize] = useState({ width: 1280, height: 720 }); // Default 720p
+  const [viewRequest, setViewRequest] = useState<ViewRequest | null>(null);
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [guides, setGuides] = useState<GuideSettings>(loadGuideSettings);
+  const [anonymizer, setAnonymizer] = useState<AnonymizerSettings>(DEFAULT_ANONYMIZER);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [animationSettings, setAnimationSettings] = useState<AnimationSettings>(DEFAULT_ANIMATION_SETTINGS);
+  const [showAnimationDialog, setShowAnimationDialog] = useState(false);
+  const [showTextExport, setShowTextExport] = useState(false);
+  const [projectId, setProjectId] = useState(generateId);
+  const [projectName, setProjectName] = useState(DEFAULT_PROJECT_NAME);
+  const [showProjectBrowser, setShowProjectBrowser] = useState(false);
+  const [crashedId, setCrashedId] = useState<string | null>(null);
+  const skipAutosave = useRef(false);
+  const autosavePending = useRef(false); // From scheduling a save until it finishes
+  const scheduledSave = useRef<(() => void) | null>(null); // A save still waiting out its delay
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
 
-  const handleAddBaseImage = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const activeComposition = compositions.find(c => c.id === activeCompositionId) || compositions[0];
+  const layers = activeComposition.layers;
+  const canvasSize = activeComposition.canvasSize;
+
+  // Every page edit is one undo step; calls sharing a merge key in quick succession extend that step
+  const setCompositions = (update: Composition[] | ((prev: Composition[]) => Composition[]), label: string, mergeKey?: string) => {
+      setHistory(prev => pushHistory(prev, typeof update === 'function' ? update(currentState(prev)) : update, label, mergeKey));
+  };
+
+  // Layer and size updates always target the page that was active when they were issued
+  const updateComposition = (id: string, update: (c: Composition) => Composition, label: string, mergeKey?: string) => {
+      setCompositions(prev => prev.map(c => c.id === id ? update(c) : c), label, mergeKey);
+  };
+
+  const setLayers = (update: Layer[] | ((prev: Layer[]) => Layer[]), label: string, mergeKey?: string) => {
+      updateComposition(activeComposition.id, c => ({ ...c, layers: typeof update === 'function' ? update(c.layers) : update }), label, mergeKey);
+  };
+
+  const setCanvasSize = (size: Size, label: string, mergeKey?: string) => {
+      updateComposition(activeComposition.id, c => ({ ...c, canvasSize: size }), label, mergeKey);
+  };
 
+  const loadBaseImage = (file: File, replace: boolean) => {
     const reader = new FileReader();
     reader.onload = (event) => {
       const src = event.target?.result as string;
       const img = new Image();
       img.src = src;
       img.onload = () => {
+        const label = replace ? 'Replace base image' : 'Add base image';
+        const mergeKey = `image:${generateId()}`; // Resize and insert undo together
+
         // Resize canvas to fit image
-        setCanvasSize({ width: img.width, height: img.height });
+        setCanvasSize({ width: img.width, height: img.height }, label, mergeKey);
         
         const newLayer: ImageLayer = {
           id: generateId(),
@@ -40,13 +112,221 @@ const App: React.FC = () => {
           rotation: 0,
           filters: { brightness: 100, contrast: 100, saturation: 100, blur: 0 }
         };
-        // Add to bottom
-        setLayers(prev => [newLayer, ...prev]);
+        setLayers(prev => {
+          const baseIndex = prev.findIndex(l => l.type === LayerType.IMAGE);
+          if (replace && baseIndex !== -1) return prev.map((l, i) => i === baseIndex ? newLayer : l);
+          // Add to bottom
+          return [newLayer, ...prev];
+        }, label, mergeKey);
       };
     };
     reader.readAsDataURL(file);
   };
 
+  const getProject = (): Project => ({
+    compositions,
+    activeCompositionId: activeComposition.id,
+    anonymizer,
+    exportSettings,
+    animationSettings,
+  });
+
+  // Files opened from disk become new stored projects; stored ones keep their id
+  const applyProject = (project: Project, id: string = generateId(), name: string = DEFAULT_PROJECT_NAME) => {
+    setProjectId(id);
+    setProjectName(name);
+    setHistory(createHistory(project.compositions));
+    setActiveCompositionId(project.compositions.some(c => c.id === project.activeCompositionId) ? project.activeCompositionId : project.compositions[0].id);
+    setAnonymizer(project.anonymizer);
+    setExportSettings(project.exportSettings);
+    setAnimationSettings(project.animationSettings);
+    setSelectedIds([]);
+  };
+
+  const confirmReplaceProject = (message: string) => {
+    const hasWork = compositions.some(c => c.layers.length > 0);
+    return !hasWork || confirm(message);
+  };
+
+  // Validation errors are written for the user; anything else (a failed read) gets a plain lead-in
+  const describeOpenError = (err: unknown, lead: string) => {
+    if (err instanceof ProjectFileError) return err.message;
+    return err instanceof Error ? `${lead}: ${err.message}` : `${lead}.`;
+  };
+
+  // PNGs exported with an embedded project reopen as layers instead of a flat base image
+  const openImageFile = async (file: File) => {
+    let project: Project | null = null;
+    try {
+      project = await readProjectFromPng(file);
+    } catch (err) {
+      alert(`${describeOpenError(err, 'The project in this image could not be read')}\nThe image will be added as a flat base image instead.`);
+    }
+    if (!project) {
+      loadBaseImage(file, false);
+      return;
+    }
+    if (confirmReplaceProject('This image contains an editable project. Replace the current project with it?')) {
+      applyProject(project, generateId(), file.name.replace(/\.png$/i, ''));
+    }
+  };
+
+  const handleSaveProject = () => {
+    downloadBlob(new Blob([serializeProject(getProject())], { type: 'application/json' }), `${projectName.replace(/[^a-z0-9_ -]+/gi, '_')}${PROJECT_FILE_EXTENSION}`);
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const project = parseProject(await file.text());
+      if (confirmReplaceProject('Open this project? The current project stays in the project browser.')) {
+        applyProject(project, generateId(), file.name.replace(/\.(ssrp|json)$/i, ''));
+      }
+    } catch (err) {
+      alert(describeOpenError(err, 'The project file could not be opened'));
+    }
+  };
+
+  const openStoredProject = async (id: string) => {
+    try {
+      const { name, project } = await loadProject(id);
+      skipAutosave.current = true; // Opening isn't an edit
+      applyProject(project, id, name);
+      setShowProjectBrowser(false);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'The project could not be opened.');
+    }
+  };
+
+  const newProject = () => {
+    const page = createComposition('Page 1', DEFAULT_CANVAS_SIZE);
+    applyProject({
+      compositions: [page],
+      activeCompositionId: page.id,
+      anonymizer: DEFAULT_ANONYMIZER,
+      exportSettings: DEFAULT_EXPORT_SETTINGS,
+      animationSettings: DEFAULT_ANIMATION_SETTINGS,
+    });
+    setShowProjectBrowser(false);
+  };
+
+  // Show the browser on startup when there is something to come back to. Recovery is only offered for
+  // a crashed session whose project was saved at least once.
+  useEffect(() => {
+    Promise.all([listProjects(), findCrashedSessionId()]).then(([projects, crashed]) => {
+      setCrashedId(crashed && projects.some(p => p.id === crashed) ? crashed : null);
+      if (projects.length > 0) setShowProjectBrowser(true);
+    }).catch(() => {});
+  }, []);
+
+  useEffect(() => { markSessionOpen(projectId); }, [projectId]);
+
+  // Leaving the page saves right away instead of waiting out the delay. A close while that save
+  // is still writing is left marked open, so the next start offers recovery.
+  useEffect(() => {
+    const flushAutosave = () => scheduledSave.current?.();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushAutosave();
+    };
+    const handlePageHide = () => {
+      flushAutosave();
+      if (!autosavePending.current) markSessionClosed();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, []);
+
+  useEffect(() => { saveGuideSettings(guides); }, [guides]);
+
+  // A larger page can lower the zoom ceiling below the current zoom
+  useEffect(() => { setZoom(prev => clampZoom(prev, canvasSize)); }, [canvasSize.width, canvasSize.height]);
+
+  useEffect(() => { saveKeymap(keymap); }, [keymap]);
+
+  // Debounced autosave of project content (selection and zoom aren't saved); untouched empty projects are not stored
+  useEffect(() => {
+    if (skipAutosave.current) {
+      skipAutosave.current = false;
+      return;
+    }
+    if (compositions.every(c => c.layers.length === 0)) {
+      autosavePending.current = false;
+      return;
+    }
+    autosavePending.current = true;
+    const project = getProject();
+    // A failed save (storage full, IndexedDB blocked in private mode) is shown in the toolbar until one succeeds
+    const save = async () => {
+      clearTimeout(timer);
+      scheduledSave.current = null;
+      try {
+        const canvas = await renderToCanvas(activeComposition.layers, canvasSize, { scale: THUMBNAIL_WIDTH / canvasSize.width });
+        await saveProject(projectId, projectName, project, await canvasToBlob(canvas, 'jpeg', 0.8));
+        setAutosaveError(null);
+      } catch (err) {
+        setAutosaveError(err instanceof Error ? err.message : String(err));
+      } finally {
+        autosavePending.current = false;
+      }
+    };
+    const timer = setTimeout(save, AUTOSAVE_DELAY);
+    scheduledSave.current = save;
+    return () => {
+      clearTimeout(timer);
+      if (scheduledSave.current === save) scheduledSave.current = null;
+    };
+  }, [compositions, activeCompositionId, anonymizer, exportSettings, animationSettings, projectName]);
+
+  const handleAddBaseImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    openImageFile(file);
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files?.[0];
+    if (file && file.type.startsWith('image/')) openImageFile(file);
+  };
+
+  const handleReplaceBaseImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    loadBaseImage(file, true);
+    e.target.value = '';
+  };
+
+  const selectComposition = (id: string) => {
+      setActiveCompositionId(id);
+      setSelectedIds([]);
+  };
+
+  // New pages reuse the current page's image layers and canvas size
+  const createPageFromActive = (name: string, extraLayers: Layer[] = []): Composition => {
+      const baseLayers = layers.filter(l => l.type === LayerType.IMAGE).map(l => ({ ...l, id: generateId() }));
+      return createComposition(name, canvasSize, [...baseLayers, ...extraLayers]);
+  };
+
+  const addComposition = () => {
+      const page = createPageFromActive(`Page ${compositions.length + 1}`);
+      setCompositions(prev => [...prev, page], 'Add page');
+      selectComposition(page.id);
+  };
+
+  const deleteComposition = (id: string) => {
+      if (compositions.length <= 1) return;
+      const remaining = compositions.filter(c => c.id !== id);
+      setCompositions(remaining, 'Delete page');
+      if (id === activeComposition.id) selectComposition(remaining[0].id);
+  };
+
   const handleAddText = (text: string, color: string = '#FFFFFF', yOffset: number = 0) => {
       // Find optimal Y position (after last text layer or center)
       const lastTextLayer = [...layers].reverse().find(l => l.type === LayerType.TEXT) as TextLayer | undefined;
@@ -71,12 +351,43 @@ const App: React.FC = () => {
           isBold: true,
           isItalic: false
       };
-      setLayers(prev => [...prev, newLayer]);
-      setSelectedLayerId(newLayer.id);
+      setLayers(prev => [...prev, newLayer], 'Add text');
+      setSelectedIds([newLayer.id]);
   };
 
-  const handleBulkAddText = (textItems: any[]) => {
-      const newLayers = textItems.map((item) => {
+  const buildChatLayers = (textItems: ParsedChatLine[], asBlock: boolean): Layer[] => {
+      if (textItems.length === 0) return [];
+      if (asBlock) {
+          const block: ChatBlockLayer = {
+              id: generateId(),
+              type: LayerType.CHAT_BLOCK,
+              name: 'Chat Block',
+              visible: true,
+              locked: false,
+              x: CHAT_LINE_DEFAULTS.x,
+              y: textItems[0]?.y ?? 50,
+              anchor: 'top-left',
+              lineSpacing: CHAT_LINE_DEFAULTS.lineSpacing,
+              lines: textItems.map(item => ({
+                  id: generateId(),
+                  content: item.content,
+                  color: item.color,
+                  runs: item.runs,
+                  category: item.category,
+                  timestamp: item.timestamp,
+                  proximity: item.proximity
+              })),
+              fontSize: CHAT_LINE_DEFAULTS.fontSize,
+              fontFamily: CHAT_LINE_DEFAULTS.fontFamily,
+              strokeColor: '#000000',
+              strokeWidth: 2,
+              shadowBlur: 0,
+              isBold: CHAT_LINE_DEFAULTS.isBold,
+              isItalic: CHAT_LINE_DEFAULTS.isItalic
+          };
+          return [block];
+      }
+      return textItems.map((item) => {
            return {
                 id: generateId(),
                 type: LayerType.TEXT,
@@ -84,97 +395,423 @@ const App: React.FC = () => {
                 visible: true,
                 locked: false,
                 content: item.content,
-                x: 30, // Standard left padding
+                x: CHAT_LINE_DEFAULTS.x,
                 y: item.y, // Calculated by parser
-                fontSize: 13,
-                fontFamily: 'Arial',
+                fontSize: CHAT_LINE_DEFAULTS.fontSize,
+                fontFamily: CHAT_LINE_DEFAULTS.fontFamily,
                 color: item.color,
+                runs: item.runs,
+                timestamp: item.timestamp,
+                proximity: item.proximity,
                 strokeColor: '#000000',
                 strokeWidth: 2,
                 shadowBlur: 0,
                 lineHeight: 1.1,
-                isBold: true,
-                isItalic: false
+                isBold: CHAT_LINE_DEFAULTS.isBold,
+                isItalic: CHAT_LINE_DEFAULTS.isItalic
            } as TextLayer;
       });
-      setLayers(prev => [...prev, ...newLayers]);
   };
 
-  const updateLayer = (id: string, updates: Partial<Layer>) => {
-      setLayers(prev => prev.map(l => l.id === id ? { ...l, ...updates } as Layer : l));
+  // The first page lands on the active composition, later pages become new compositions
+  const handleAddChatPages = (parsedPages: ParsedChatLine[][], asBlock: boolean) => {
+      let pages = parsedPages;
+      if (anonymizer.applyOnImport) {
+          // Extend the shared mapping first so new names get the same pseudonym everywhere
+          const settings = extendMapping(anonymizer, parsedPages.flat().flatMap(item => findPlayerNames(item.content)));
+          setAnonymizer(settings);
+          pages = parsedPages.map(page => page.map(item => ({
+              ...item,
+              content: anonymizeText(item.content, settings),
+              runs: item.runs && anonymizeRuns(item.runs, settings)
+          })));
+      }
+
+      const [first, ...rest] = pages.map(page => buildChatLayers(page, asBlock));
+      const mergeKey = `import:${generateId()}`;
+      setLayers(prev => [...prev, ...first], 'Import chatlog', mergeKey);
+      if (asBlock && rest.length === 0 && first.length > 0) setSelectedIds([first[0].id]);
+      if (rest.length > 0) {
+          const offset = compositions.length;
+          setCompositions(prev => [...prev, ...rest.map((pageLayers, i) => createPageFromActive(`Page ${offset + i + 1}`, pageLayers))], 'Import chatlog', mergeKey);
+      }
+  };
+
+  const handleBulkAddText = (parsedItems: ParsedChatLine[], asBlock: boolean = false) => {
+      handleAddChatPages([parsedItems], asBlock);
+  };
+
+  // Every page shares one mapping, so a player keeps the same pseudonym throughout the project
+  const scanPlayerNames = () => {
+      const names = compositions.flatMap(c => c.layers).flatMap(l => {
+          if (l.type === LayerType.TEXT) return l.content.split('\n').flatMap(findPlayerNames);
+          if (l.type === LayerType.CHAT_BLOCK) return l.lines.flatMap(line => findPlayerNames(line.content));
+          return [];
+      });
+      setAnonymizer(prev => extendMapping(prev, names));
+  };
+
+  const anonymizeLayer = (l: Layer): Layer => {
+      if (l.type === LayerType.CHAT_BLOCK) {
+          return {
+              ...l,
+              lines: l.lines.map(line => ({
+                  ...line,
+                  content: anonymizeText(line.content, anonymizer),
+                  runs: line.runs && anonymizeRuns(line.runs, anonymizer)
+              }))
+          };
+      }
+      if (l.type !== LayerType.TEXT) return l;
+      return {
+          ...l,
+          name: anonymizeText(l.name, anonymizer),
+          content: anonymizeText(l.content, anonymizer),
+          runs: l.runs && anonymizeRuns(l.runs, anonymizer)
+      };
+  };
+
+  const applyAnonymizer = () => {
+      setCompositions(prev => prev.map(c => ({ ...c, layers: c.layers.map(anonymizeLayer) })), 'Anonymize names');
+  };
+
+  const describeLayers = (ids: string[]) => ids.length > 1 ? `${ids.length} layers` : layers.find(l => l.id === ids[0])?.name || 'layer';
+
+  // Shift/Ctrl-click adds or removes a layer, a plain click selects only that one
+  const selectLayer = (id: string, additive: boolean) => {
+      setSelectedIds(prev => !additive ? [id] : prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  // Across several layers, fields a layer doesn't have are left off it
+  const updateLayers = (ids: string[], updates: Partial<Layer>) => {
+      const fields = Object.keys(updates).sort().join();
+      setLayers(prev => prev.map(l => {
+          if (!ids.includes(l.id)) return l;
+          const applicable = ids.length > 1 ? Object.fromEntries(Object.entries(updates).filter(([key]) => key in l)) : updates;
+          return { ...l, ...applicable } as Layer;
+      }), `${fields === 'x,y' ? 'Move' : 'Edit'} ${describeLayers(ids)}`);
+  };
+
+  const setLayerPositions = (positions: LayerPosition[], label: string, mergeKey?: string) => {
+      const byId = new Map(positions.map(p => [p.id, p]));
+      setLayers(prev => prev.map(l => {
+          const p = byId.get(l.id);
+          return p ? { ...l, x: p.x, y: p.y } : l;
+      }), label, mergeKey);
+  };
+
+  // Group drags place each layer relative to its own start position
+  const moveLayers = (positions: LayerPosition[]) => {
+      const ids = positions.map(p => p.id);
+      setLayerPositions(positions, `Move ${describeLayers(ids)}`);
+  };
+
+  // One layer aligns to the canvas, several to their shared bounds. Locked layers stay put.
+  const alignSelection = (mode: AlignMode) => {
+      const targets = layers.filter(l => selectedIds.includes(l.id) && !l.locked);
+      const reference = targets.length === 1 ? { x: 0, y: 0, ...canvasSize } : getLayersBounds(targets);
+      if (!reference) return;
+      setLayerPositions(alignLayers(targets, mode, reference), `Align ${describeLayers(targets.map(l => l.id))} ${mode}`);
+  };
+
+  const distributeSelection = (axis: DistributeAxis) => {
+      const targets = layers.filter(l => selectedIds.includes(l.id) && !l.locked);
+      const positions = distributeLayers(targets, axis);
+      if (positions.length === 0) return;
+      setLayerPositions(positions, `Distribute ${describeLayers(targets.map(l => l.id))} ${axis}ly`);
   };
 
-  const deleteLayer = (id: string) => {
-      setLayers(prev => prev.filter(l => l.id !== id));
-      if(selectedLayerId === id) setSelectedLayerId(null);
+  const deleteLayers = (ids: string[]) => {
+      setLayers(prev => prev.filter(l => !ids.includes(l.id)), `Delete ${describeLayers(ids)}`);
+      setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
   };
 
-  const duplicateLayer = () => {
-      if(!selectedLayerId) return;
-      const original = layers.find(l => l.id === selectedLayerId);
-      if(!original) return;
-      
-      // Cast to any to access specific props easily, then spread
-      const copy: any = { ...original };
-      copy.id = generateId();
-      copy.name = original.name + ' (Copy)';
-      copy.x = original.x + 20;
-      copy.y = original.y + 20;
+  // Copies land above the originals and become the new selection
+  const duplicateLayers = () => {
+      const originals = layers.filter(l => selectedIds.includes(l.id));
+      if (originals.length === 0) return;
+      const copies = originals.map(original => cloneLayer(original, {
+          name: original.name + ' (Copy)',
+          x: original.x + 20,
+          y: original.y + 20,
+      }));
 
-      setLayers(prev => [...prev, copy as Layer]);
-      setSelectedLayerId(copy.id);
+      setLayers(prev => [...prev, ...copies], `Duplicate ${describeLayers(originals.map(l => l.id))}`);
+      setSelectedIds(copies.map(c => c.id));
   };
   
   const reorderLayers = (fromIndex: number, toIndex: number) => {
       const newLayers = [...layers];
       const [moved] = newLayers.splice(fromIndex, 1);
       newLayers.splice(toIndex, 0, moved);
-      setLayers(newLayers);
+      setLayers(newLayers, `Reorder ${moved.name}`);
   };
 
-  const handleExport = () => {
-      const canvas = document.querySelector('canvas');
-      if(canvas) {
-          downloadCanvas(canvas, `ssrp-export-${Date.now()}.png`);
+  // One step up or down the stack for each selected layer; selected neighbours move as a block
+  const stepSelection = (direction: 1 | -1) => {
+      if (selectedIds.length === 1) {
+          const index = layers.findIndex(l => l.id === selectedIds[0]);
+          if (index + direction >= 0 && index + direction < layers.length) reorderLayers(index, index + direction);
+          return;
       }
+      const next = [...layers];
+      const order = direction === 1 ? [...next.keys()].reverse() : [...next.keys()];
+      order.forEach(i => {
+          const j = i + direction;
+          if (!selectedIds.includes(next[i].id) || j < 0 || j >= next.length || selectedIds.includes(next[j].id)) return;
+          [next[i], next[j]] = [next[j], next[i]];
+      });
+      if (next.some((l, i) => l !== layers[i])) setLayers(next, `Reorder ${describeLayers(selectedIds)}`);
+  };
+
+  const nudgeSelection = (dx: number, dy: number) => {
+      const targets = layers.filter(l => selectedIds.includes(l.id) && !l.locked);
+      if (targets.length > 0) moveLayers(targets.map(l => ({ id: l.id, x: l.x + dx, y: l.y + dy })));
+  };
+
+  // Pasted layers get fresh ids. On the page they were copied from they land offset, like duplicates.
+  const pasteLayers = () => {
+      const copied = readCopiedLayers();
+      if (copied.length === 0) return;
+      const offset = copied.some(c => layers.some(l => l.id === c.id)) ? 20 : 0;
+      const pasted = copied.map(layer => cloneLayer(layer, { x: layer.x + offset, y: layer.y + offset }));
+      setLayers(prev => [...prev, ...pasted], `Paste ${pasted.length > 1 ? `${pasted.length} layers` : pasted[0].name}`);
+      setSelectedIds(pasted.map(l => l.id));
+  };
+
+  const requestView = (fit: ViewFit) => setViewRequest(prev => ({ fit, id: (prev?.id ?? 0) + 1 }));
+
+  // Returns false when the key should keep its default behaviour, like Ctrl+C on selected page text
+  const runShortcut = (action: ShortcutAction): boolean => {
+      const selection = layers.filter(l => selectedIds.includes(l.id));
+      switch (action) {
+          case 'undo': setHistory(undo); break;
+          case 'redo': setHistory(redo); break;
+          case 'copy':
+              if (selection.length === 0) return false;
+              copyLayers(selection);
+              break;
+          case 'paste': pasteLayers(); break;
+          case 'duplicate': duplicateLayers(); break;
+          case 'delete': if (selection.length > 0) deleteLayers(selectedIds); break;
+          case 'selectAll': setSelectedIds(layers.map(l => l.id)); break;
+          case 'deselect': setSelectedIds([]); break;
+          case 'nudgeLeft': nudgeSelection(-NUDGE_STEP, 0); break;
+          case 'nudgeRight': nudgeSelection(NUDGE_STEP, 0); break;
+          case 'nudgeUp': nudgeSelection(0, -NUDGE_STEP); break;
+          case 'nudgeDown': nudgeSelection(0, NUDGE_STEP); break;
+          case 'nudgeLeftFar': nudgeSelection(-NUDGE_STEP_FAR, 0); break;
+          case 'nudgeRightFar': nudgeSelection(NUDGE_STEP_FAR, 0); break;
+          case 'nudgeUpFar': nudgeSelection(0, -NUDGE_STEP_FAR); break;
+          case 'nudgeDownFar': nudgeSelection(0, NUDGE_STEP_FAR); break;
+          case 'bringForward': stepSelection(1); break;
+          case 'sendBackward': stepSelection(-1); break;
+          case 'toggleVisible': if (selection.length > 0) updateLayers(selectedIds, { visible: !selection.some(l => l.visible) }); break;
+          case 'toggleLock': if (selection.length > 0) updateLayers(selectedIds, { locked: !selection.every(l => l.locked) }); break;
+          case 'zoomIn': setZoom(prev => clampZoom(prev + ZOOM_STEP, canvasSize)); break;
+          case 'zoomOut': setZoom(prev => clampZoom(prev - ZOOM_STEP, canvasSize)); break;
+          case 'fitScreen': requestView('screen'); break;
+          case 'actualSize': requestView('actual'); break;
+          case 'zoomToSelection': if (selection.length > 0) requestView('selection'); break;
+          case 'showShortcuts': setShowShortcuts(true); break;
+      }
+      return true;
+  };
+
+  // A drag, a slider scrub or a spell of typing in one field is one undo step: history merges edits
+  // from a pointer press to its release, and from a text field's focus to its blur.
+  useEffect(() => {
+    let pressed = false;
+    const handlePointerDown = () => {
+      if (pressed) setHistory(endGesture);
+      pressed = true;
+      setHistory(beginGesture);
+    };
+    const handlePointerUp = () => {
+      if (!pressed) return;
+      pressed = false;
+      setHistory(endGesture);
+    };
+    const handleFocusIn = (e: FocusEvent) => { if (isTextEntryTarget(e.target)) setHistory(beginGesture); };
+    const handleFocusOut = (e: FocusEvent) => { if (isTextEntryTarget(e.target)) setHistory(endGesture); };
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('pointerup', handlePointerUp, true);
+    window.addEventListener('pointercancel', handlePointerUp, true);
+    window.addEventListener('blur', handlePointerUp);
+    window.addEventListener('focusin', handleFocusIn);
+    window.addEventListener('focusout', handleFocusOut);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('pointerup', handlePointerUp, true);
+      window.removeEventListener('pointercancel', handlePointerUp, true);
+      window.removeEventListener('blur', handlePointerUp);
+      window.removeEventListener('focusin', handleFocusIn);
+      window.removeEventListener('focusout', handleFocusOut);
+    };
+  }, []);
+
+  // Re-registered every render so shortcuts see the current page and selection.
+  // Text fields keep their own keys, native undo included, and open dialogs get the keyboard to themselves.
+  const dialogOpen = showExportDialog || showAnimationDialog || showTextExport || showProjectBrowser || showShortcuts;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (dialogOpen || ownsKeyboard(e.target)) return;
+      const combo = eventToCombo(e);
+      const action = combo && findShortcut(keymap, combo);
+      if (action && runShortcut(action)) e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Rendered offscreen so the file is free of selection boxes, using the last dialog settings
+  const handleExport = async () => {
+      setShowExportDialog(false);
+      try {
+          await exportComposition(activeComposition, exportSettings, `ssrp-export-${Date.now()}`, getProject());
+      } catch (err) {
+          alert(`Export failed: ${err instanceof Error ? err.message : err}`);
+      }
+  };
+
+  // Every page numbered in page order. A page that fails is reported and the rest still export.
+  const handleExportAll = async () => {
+      const stamp = Date.now();
+      const project = getProject();
+      const failures: string[] = [];
+      for (let i = 0; i < compositions.length; i++) {
+          const settings = getPageExportSettings(exportSettings, compositions[i].id === activeComposition.id);
+          try {
+              await exportComposition(compositions[i], settings, `ssrp-export-${stamp}-page-${String(i + 1).padStart(2, '0')}`, project);
+          } catch (err) {
+              failures.push(`${compositions[i].name}: ${err instanceof Error ? err.message : err}`);
+          }
+      }
+      if (failures.length > 0) alert(`Export failed for ${failures.length} of ${compositions.length} pages:\n${failures.join('\n')}`);
   };
 
   return (
-    <div className="flex flex-col h-screen text-zinc-200">
+    <div className="flex flex-col h-screen text-zinc-200" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
       <Toolbar 
         zoom={zoom} 
-        onZoomIn={() => setZoom(prev => Math.min(prev + 0.1, 3))} 
-        onZoomOut={() => setZoom(prev => Math.max(prev - 0.1, 0.1))}
-        onExport={handleExport}
+        onZoomIn={() => setZoom(prev => clampZoom(prev + ZOOM_STEP, canvasSize))} 
+        onZoomOut={() => setZoom(prev => clampZoom(prev - ZOOM_STEP, canvasSize))}
+        onViewFit={requestView}
+        onShowShortcuts={() => setShowShortcuts(true)}
+        hasSelection={selectedIds.length > 0}
+        onExport={() => setShowExportDialog(true)}
+        onExportAll={handleExportAll}
+        onAnimate={() => setShowAnimationDialog(true)}
+        onExportText={() => setShowTextExport(true)}
+        pageCount={compositions.length}
         onAddImage={handleAddBaseImage}
+        onSaveProject={handleSaveProject}
+        onOpenProject={handleOpenProject}
+        onShowProjects={() => setShowProjectBrowser(true)}
+        projectName={projectName}
+        autosaveError={autosaveError}
+        onUndo={() => setHistory(undo)}
+        onRedo={() => setHistory(redo)}
+        canUndo={canUndo(history)}
+        canRedo={canRedo(history)}
+        guides={guides}
+        onGuidesChange={setGuides}
       />
       <div className="flex flex-1 overflow-hidden">
         <LayerManager 
             layers={layers}
-            selectedId={selectedLayerId}
-            onSelect={setSelectedLayerId}
+            selectedIds={selectedIds}
+            onSelect={selectLayer}
             onAddText={handleAddText}
             onReorder={reorderLayers}
-            onDelete={deleteLayer}
+            onDelete={(id) => deleteLayers([id])}
             onBulkAddText={handleBulkAddText}
+            onAddChatPages={handleAddChatPages}
+            canvasWidth={canvasSize.width}
+            anonymizer={anonymizer}
+            onAnonymizerChange={setAnonymizer}
+            onScanNames={scanPlayerNames}
+            onApplyAnonymizer={applyAnonymizer}
+            history={history.entries}
+            historyIndex={history.index}
+            onJumpHistory={(index) => setHistory(prev => jumpTo(prev, index))}
         />
-        <CanvasRenderer 
-            width={canvasSize.width}
-            height={canvasSize.height}
-            layers={layers}
-            selectedLayerId={selectedLayerId}
-            onSelectLayer={setSelectedLayerId}
-            onUpdateLayerPos={(id, x, y) => updateLayer(id, {x, y})}
-            zoom={zoom}
-            bgImage={null}
-        />
+        <div className="flex flex-col flex-1 min-w-0">
+          <PageTabs
+              compositions={compositions}
+              activeId={activeComposition.id}
+              onSelect={selectComposition}
+              onAdd={addComposition}
+              onDelete={deleteComposition}
+              onReplaceBase={handleReplaceBaseImage}
+          />
+          <CanvasRenderer 
+              width={canvasSize.width}
+              height={canvasSize.height}
+              layers={layers}
+              selectedIds={selectedIds}
+              onSelectLayers={setSelectedIds}
+              onMoveLayers={moveLayers}
+              onUpdateLayer={(id, updates) => updateLayers([id], updates)}
+              zoom={zoom}
+              onZoomChange={setZoom}
+              viewRequest={viewRequest}
+              guides={guides}
+              bgImage={null}
+              keysEnabled={!dialogOpen}
+          />
+        </div>
         <PropertiesPanel 
-            layer={layers.find(l => l.id === selectedLayerId) || null}
-            onChange={(updates) => selectedLayerId && updateLayer(selectedLayerId, updates)}
-            onDelete={() => selectedLayerId && deleteLayer(selectedLayerId)}
-            onDuplicate={duplicateLayer}
+            layers={layers.filter(l => selectedIds.includes(l.id))}
+            onChange={(updates) => updateLayers(selectedIds, updates)}
+            onDelete={() => deleteLayers(selectedIds)}
+            onDuplicate={duplicateLayers}
+            onAlign={alignSelection}
+            onDistribute={distributeSelection}
         />
       </div>
+
+      {showExportDialog && (
+        <ExportDialog
+          composition={activeComposition}
+          project={getProject()}
+          settings={exportSettings}
+          onChange={setExportSettings}
+          onCancel={() => setShowExportDialog(false)}
+          onExport={handleExport}
+        />
+      )}
+
+      {showAnimationDialog && (
+        <AnimationDialog
+          composition={activeComposition}
+          settings={animationSettings}
+          onChange={setAnimationSettings}
+          onClose={() => setShowAnimationDialog(false)}
+        />
+      )}
+
+      {showProjectBrowser && (
+        <ProjectBrowser
+          currentId={projectId}
+          crashedId={crashedId}
+          onOpen={openStoredProject}
+          onRenamed={(id, name) => id === projectId && setProjectName(name)}
+          onNew={newProject}
+          onClose={() => setShowProjectBrowser(false)}
+        />
+      )}
+
+      {showShortcuts && (
+        <ShortcutsDialog keymap={keymap} onChange={setKeymap} onClose={() => setShowShortcuts(false)} />
+      )}
+
+      {showTextExport && (
+        <TextExportDialog
+          composition={activeComposition}
+          onClose={() => setShowTextExport(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,31 +1,86 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Layer, LayerType, TextLayer, ImageLayer } from '../types.ts';
+import React, { useRef, useEffect, useLayoutEffect, useState, useCallback } from 'react';
+import { GuideSettings, Layer, LayerType, LayerPosition, Position, Rect } from '../types.ts';
+import { drawScene } from '../renderer.ts';
+import { ownsKeyboard } from '../utils.ts';
+import { ViewRequest, clampZoom, fitZoom, rectCenter, wheelZoomFactor } from '../viewport.ts';
+import { SnapLines, SNAP_DISTANCE, getSnapSources, getSnapTargets, snapOffset } from '../snapping.ts';
+import {
+  LayerBox, TransformHandle, TRANSFORM_HANDLES, getLayerBox, boxToLayer, getBoxCorners, getBoundingRect, getHandlePoint,
+  getLayersBounds, getPivotPoint, layerContainsPoint, rectsIntersect, toCanvasPoint, resizeBox, rotateBox, setBoxPivot, snapPivot,
+} from '../geometry.ts';
+import Ruler from './Ruler.tsx';
+import Minimap from './Minimap.tsx';
 
 interface CanvasRendererProps {
   width: number;
   height: number;
   layers: Layer[];
-  selectedLayerId: string | null;
-  onSelectLayer: (id: string | null) => void;
-  onUpdateLayerPos: (id: string, x: number, y: number) => void;
+  selectedIds: string[];
+  onSelectLayers: (ids: string[]) => void;
+  onMoveLayers: (positions: LayerPosition[]) => void;
+  onUpdateLayer: (id: string, updates: Partial<Layer>) => void;
   zoom: number;
+  onZoomChange: (zoom: number) => void;
+  viewRequest: ViewRequest | null;
+  guides: GuideSettings;
   bgImage: HTMLImageElement | null;
+  keysEnabled: boolean; // Off while a dialog is open
 }
 
+// What the current mouse drag is doing. Transforms keep the layer and box from the start
+// of the drag and recompute from those, so rounding never accumulates.
+type DragState =
+  | { mode: 'move'; start: Position; origins: LayerPosition[]; sources: SnapLines; targets: SnapLines; guides: SnapLines }
+  | { mode: 'marquee'; start: Position; end: Position; additive: boolean }
+  | { mode: 'resize'; handle: TransformHandle; layer: Layer; box: LayerBox }
+  | { mode: 'rotate'; start: Position; layer: Layer; box: LayerBox }
+  | { mode: 'pivot'; layer: Layer; box: LayerBox };
+
+// Screen pixels, divided by the zoom to get canvas units
+const HANDLE_SIZE = 8;
+const ROTATE_HANDLE_OFFSET = 24;
+const RULER_SIZE = 20;
+
+const HANDLE_CURSORS: Record<TransformHandle, string> = {
+  nw: 'nwse-resize', se: 'nwse-resize', ne: 'nesw-resize', sw: 'nesw-resize',
+  n: 'ns-resize', s: 'ns-resize', e: 'ew-resize', w: 'ew-resize',
+};
+
+const distance = (a: Position, b: Position) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Marquee from its two corners, whichever way it was dragged
+const normalizeRect = (start: Position, end: Position) => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y),
+});
+
 const CanvasRenderer: React.FC<CanvasRendererProps> = ({
   width,
   height,
   layers,
-  selectedLayerId,
-  onSelectLayer,
-  onUpdateLayerPos,
+  selectedIds,
+  onSelectLayers,
+  onMoveLayers,
+  onUpdateLayer,
   zoom,
+  onZoomChange,
+  viewRequest,
+  guides,
   bgImage,
+  keysEnabled,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [initialLayerPos, setInitialLayerPos] = useState({ x: 0, y: 0 });
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [hoverCursor, setHoverCursor] = useState('default');
+  const [pan, setPan] = useState<{ client: Position; scroll: Position } | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [visible, setVisible] = useState<Rect | null>(null);
+  // Canvas point to keep at a viewport point across the next zoom change; the view center when unset
+  const zoomAnchor = useRef<{ point: Position; screen: Position } | null>(null);
+  const gestureStartZoom = useRef(zoom);
 
   // Load images for layers
   const [loadedImages, setLoadedImages] = useState<Record<string, HTMLImageElement>>({});
@@ -42,6 +97,12 @@ const CanvasRenderer: React.FC<CanvasRendererProps> = ({
     });
   }, [layers, loadedImages]);
 
+  // Handles are shown when exactly one unlocked, visible layer is selected
+  const selected = layers.filter(l => selectedIds.includes(l.id));
+  const transformTarget = selected.length === 1 && selected[0].visible && !selected[0].locked ? selected[0] : null;
+
+  const getRotateHandlePoint = (box: LayerBox) => toCanvasPoint(box, { x: box.x + box.width / 2, y: box.y - ROTATE_HANDLE_OFFSET / zoom });
+
   // Main Draw Loop
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -49,197 +110,433 @@ const CanvasRenderer: React.FC<CanvasRendererProps> = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Reset transform and clear
-    ctx.setTransform(1, 0, 0, 1, 0, 0);
-    ctx.clearRect(0, 0, width, height);
-
-    // Apply Zoom
-    ctx.scale(zoom, zoom);
-
-    // Draw Background (Standard SAMP Black Screen / Blindfold base if no bg, or just black)
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, width, height);
-
-    // Helper to draw text
-    const drawText = (layer: TextLayer) => {
-      ctx.font = `${layer.isItalic ? 'italic' : 'normal'} ${layer.isBold ? 'bold' : 'normal'} ${layer.fontSize}px ${layer.fontFamily}`;
-      ctx.textAlign = 'left';
-      ctx.textBaseline = 'top';
-
-      const lines = layer.content.split('\n');
-      let currentY = layer.y;
-
-      lines.forEach(line => {
-        // Outline (SAMP Style)
-        if (layer.strokeWidth > 0) {
-          ctx.strokeStyle = layer.strokeColor;
-          ctx.lineWidth = layer.strokeWidth;
-          ctx.lineJoin = 'round';
-          ctx.miterLimit = 2;
-          ctx.strokeText(line, layer.x, currentY);
-        }
+    // Same renderer as export, scaled by the zoom
+    drawScene(ctx, layers, loadedImages, { width, height }, { scale: zoom });
 
-        // Shadow
-        if (layer.shadowBlur > 0) {
-          ctx.shadowColor = 'rgba(0,0,0,0.8)';
-          ctx.shadowBlur = layer.shadowBlur;
-          ctx.shadowOffsetX = 1;
-          ctx.shadowOffsetY = 1;
-        } else {
-          ctx.shadowColor = 'transparent';
-          ctx.shadowBlur = 0;
-          ctx.shadowOffsetX = 0;
-          ctx.shadowOffsetY = 0;
+    // Grid and margins, skipped when the cells would be too small to see
+    if (guides.showGrid) {
+      ctx.save();
+      ctx.lineWidth = 1 / zoom;
+      if (guides.gridSize > 0 && guides.gridSize * zoom >= 4) {
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.12)';
+        ctx.beginPath();
+        for (let x = guides.gridSize; x < width; x += guides.gridSize) {
+          ctx.moveTo(x, 0);
+          ctx.lineTo(x, height);
+        }
+        for (let y = guides.gridSize; y < height; y += guides.gridSize) {
+          ctx.moveTo(0, y);
+          ctx.lineTo(width, y);
         }
+        ctx.stroke();
+      }
+      if (guides.margin > 0) {
+        ctx.strokeStyle = 'rgba(34, 211, 238, 0.6)';
+        ctx.setLineDash([4 / zoom, 4 / zoom]);
+        ctx.strokeRect(guides.margin, guides.margin, width - guides.margin * 2, height - guides.margin * 2);
+      }
+      ctx.restore();
+    }
 
-        // Fill
-        ctx.fillStyle = layer.color;
-        ctx.fillText(line, layer.x, currentY);
+    // Selection overlay (editor only, never part of the rendered image)
+    selected.filter(l => l.visible).forEach(layer => {
+      ctx.save();
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = (layer.type === LayerType.IMAGE ? 2 : 1) / zoom;
+      if (layer.type !== LayerType.IMAGE) ctx.setLineDash([5 / zoom, 5 / zoom]);
+      ctx.beginPath();
+      getBoxCorners(getLayerBox(layer)).forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.stroke();
+      ctx.restore();
+    });
 
-        // Reset Shadow for next items
-        ctx.shadowColor = 'transparent';
-        ctx.shadowBlur = 0;
+    if (transformTarget) {
+      const box = getLayerBox(transformTarget);
+      const handle = HANDLE_SIZE / zoom;
+      const topCenter = getHandlePoint(box, 'n');
+      const rotateHandle = getRotateHandlePoint(box);
+      const pivot = getPivotPoint(box);
 
-        currentY += layer.fontSize * layer.lineHeight;
+      ctx.save();
+      ctx.strokeStyle = '#3b82f6';
+      ctx.fillStyle = '#ffffff';
+      ctx.lineWidth = 1 / zoom;
+
+      ctx.beginPath();
+      ctx.moveTo(topCenter.x, topCenter.y);
+      ctx.lineTo(rotateHandle.x, rotateHandle.y);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(rotateHandle.x, rotateHandle.y, handle / 2, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+
+      TRANSFORM_HANDLES.forEach(h => {
+        const p = getHandlePoint(box, h);
+        ctx.fillRect(p.x - handle / 2, p.y - handle / 2, handle, handle);
+        ctx.strokeRect(p.x - handle / 2, p.y - handle / 2, handle, handle);
       });
 
-      // Selection Box
-      if (selectedLayerId === layer.id) {
-        const metrics = ctx.measureText(lines.reduce((a, b) => a.length > b.length ? a : b, ''));
-        const textHeight = lines.length * (layer.fontSize * layer.lineHeight);
-        ctx.strokeStyle = '#3b82f6';
-        ctx.lineWidth = 1 / zoom;
-        ctx.setLineDash([5 / zoom, 5 / zoom]);
-        ctx.strokeRect(layer.x - 2, layer.y - 2, metrics.width + 4, textHeight + 4);
-        ctx.setLineDash([]);
-      }
-    };
-
-    // Helper to draw image
-    const drawImage = (layer: ImageLayer) => {
-      const img = loadedImages[layer.id];
-      if (!img) return;
+      // Pivot: a ringed crosshair
+      ctx.beginPath();
+      ctx.arc(pivot.x, pivot.y, handle / 2, 0, Math.PI * 2);
+      ctx.moveTo(pivot.x - handle, pivot.y);
+      ctx.lineTo(pivot.x + handle, pivot.y);
+      ctx.moveTo(pivot.x, pivot.y - handle);
+      ctx.lineTo(pivot.x, pivot.y + handle);
+      ctx.stroke();
+      ctx.restore();
+    }
 
+    // Snap guides across the whole canvas while a move is snapped
+    if (drag?.mode === 'move') {
       ctx.save();
-      // Apply filters
-      ctx.filter = `brightness(${layer.filters.brightness}%) contrast(${layer.filters.contrast}%) saturation(${layer.filters.saturation}%) blur(${layer.filters.blur}px)`;
-      
-      // Position center pivot for rotation
-      const centerX = layer.x + (layer.width * layer.scale) / 2;
-      const centerY = layer.y + (layer.height * layer.scale) / 2;
-
-      ctx.translate(centerX, centerY);
-      ctx.rotate((layer.rotation * Math.PI) / 180);
-      ctx.translate(-centerX, -centerY);
-
-      ctx.drawImage(
-        img, 
-        layer.x, 
-        layer.y, 
-        layer.width * layer.scale, 
-        layer.height * layer.scale
-      );
+      ctx.strokeStyle = '#ec4899';
+      ctx.lineWidth = 1 / zoom;
+      ctx.beginPath();
+      drag.guides.x.forEach(x => {
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+      });
+      drag.guides.y.forEach(y => {
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+      });
+      ctx.stroke();
+      ctx.restore();
+    }
 
+    if (drag?.mode === 'marquee') {
+      const r = normalizeRect(drag.start, drag.end);
+      ctx.save();
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.1)';
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 1 / zoom;
+      ctx.fillRect(r.x, r.y, r.width, r.height);
+      ctx.strokeRect(r.x, r.y, r.width, r.height);
       ctx.restore();
+    }
 
-      // Selection Box
-      if (selectedLayerId === layer.id) {
-        ctx.save();
-        ctx.translate(centerX, centerY);
-        ctx.rotate((layer.rotation * Math.PI) / 180);
-        ctx.translate(-centerX, -centerY);
-        
-        ctx.strokeStyle = '#3b82f6';
-        ctx.lineWidth = 2 / zoom;
-        ctx.strokeRect(
-          layer.x, 
-          layer.y, 
-          layer.width * layer.scale, 
-          layer.height * layer.scale
-        );
-        ctx.restore();
-      }
+  }, [layers, selectedIds, drag, zoom, width, height, loadedImages, guides]);
+
+  // The part of the canvas in view, in canvas units
+  const measureVisible = (): Rect | null => {
+    const viewport = viewportRef.current;
+    const canvas = canvasRef.current;
+    if (!viewport || !canvas) return null;
+    const v = viewport.getBoundingClientRect();
+    const c = canvas.getBoundingClientRect();
+    return { x: (v.left - c.left) / zoom, y: (v.top - c.top) / zoom, width: viewport.clientWidth / zoom, height: viewport.clientHeight / zoom };
+  };
+
+  // Scroll so a canvas point sits at a spot in the viewport, as far as the scroll range allows
+  const scrollPointTo = (point: Position, screen: Position) => {
+    const viewport = viewportRef.current;
+    const canvas = canvasRef.current;
+    if (!viewport || !canvas) return;
+    const v = viewport.getBoundingClientRect();
+    const c = canvas.getBoundingClientRect();
+    viewport.scrollLeft += c.left + point.x * zoom - (v.left + screen.x);
+    viewport.scrollTop += c.top + point.y * zoom - (v.top + screen.y);
+    setVisible(measureVisible());
+  };
+
+  const getViewCenter = (): Position => ({ x: viewportRef.current!.clientWidth / 2, y: viewportRef.current!.clientHeight / 2 });
+
+  // Zoom keeping the canvas point under the cursor where it is
+  const zoomAt = (next: number, client: Position) => {
+    const viewport = viewportRef.current;
+    const canvas = canvasRef.current;
+    if (!viewport || !canvas || next === zoom) return;
+    const v = viewport.getBoundingClientRect();
+    const c = canvas.getBoundingClientRect();
+    zoomAnchor.current = {
+      point: { x: (client.x - c.left) / zoom, y: (client.y - c.top) / zoom },
+      screen: { x: client.x - v.left, y: client.y - v.top },
     };
+    onZoomChange(next);
+  };
 
-    // Render loop
-    // 1. Draw Images first (bottom up)
-    [...layers].filter(l => l.visible).forEach(layer => {
-      if (layer.type === LayerType.IMAGE) drawImage(layer as ImageLayer);
-      if (layer.type === LayerType.TEXT) drawText(layer as TextLayer);
-    });
+  // Runs after the canvas has its new size, before paint
+  useLayoutEffect(() => {
+    if (!viewportRef.current) return;
+    const anchor = zoomAnchor.current || (visible && { point: rectCenter(visible), screen: getViewCenter() });
+    zoomAnchor.current = null;
+    if (anchor) scrollPointTo(anchor.point, anchor.screen);
+  }, [zoom]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(() => setVisible(measureVisible()));
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, [zoom, width, height]);
+
+  // Ctrl+wheel and trackpad pinches (which arrive as Ctrl+wheel) zoom at the cursor; Safari sends gesture events instead.
+  // Registered natively because React's wheel listener is passive and can't stop the browser's page zoom.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      e.preventDefault();
+      zoomAt(clampZoom(zoom * wheelZoomFactor(e.deltaY), { width, height }), { x: e.clientX, y: e.clientY });
+    };
+    const handleGestureStart = (e: Event) => {
+      e.preventDefault();
+      gestureStartZoom.current = zoom;
+    };
+    const handleGestureChange = (e: Event) => {
+      e.preventDefault();
+      const gesture = e as Event & { scale: number; clientX: number; clientY: number };
+      zoomAt(clampZoom(gestureStartZoom.current * gesture.scale, { width, height }), { x: gesture.clientX, y: gesture.clientY });
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    viewport.addEventListener('gesturestart', handleGestureStart);
+    viewport.addEventListener('gesturechange', handleGestureChange);
+    return () => {
+      viewport.removeEventListener('wheel', handleWheel);
+      viewport.removeEventListener('gesturestart', handleGestureStart);
+      viewport.removeEventListener('gesturechange', handleGestureChange);
+    };
+  }, [zoom, width, height, onZoomChange]);
 
-  }, [layers, selectedLayerId, zoom, width, height, loadedImages]);
+  // Fit the page or the selection into view, or go to 100% around the current center
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewRequest || !viewport) return;
+    const page = { x: 0, y: 0, width, height };
+    const area = viewRequest.fit === 'selection' ? getLayersBounds(selected.filter(l => l.visible)) || page : page;
+    const next = viewRequest.fit === 'actual' ? clampZoom(1, page) : fitZoom(area, { width: viewport.clientWidth, height: viewport.clientHeight }, page);
+    const anchor = viewRequest.fit === 'actual' ? null : { point: rectCenter(area), screen: getViewCenter() };
+    if (next !== zoom) {
+      zoomAnchor.current = anchor;
+      onZoomChange(next);
+    } else if (anchor) {
+      scrollPointTo(anchor.point, anchor.screen);
+    }
+  }, [viewRequest]);
 
-  // Mouse Handlers for Dragging
-  const handleMouseDown = (e: React.MouseEvent) => {
+  // Space turns the pointer into a hand until it is released
+  useEffect(() => {
+    if (!keysEnabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || ownsKeyboard(e.target)) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    const handleBlur = () => setSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      setSpaceHeld(false);
+    };
+  }, [keysEnabled]);
+
+  // Pans follow the mouse anywhere on the page until the button is released
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!pan || !viewport) return;
+    const handleMove = (e: MouseEvent) => {
+      viewport.scrollLeft = pan.scroll.x - (e.clientX - pan.client.x);
+      viewport.scrollTop = pan.scroll.y - (e.clientY - pan.client.y);
+    };
+    const handleUp = () => setPan(null);
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [pan]);
+
+  // Middle mouse, or any button with Space held, pans the view
+  const handlePanStart = (e: React.MouseEvent) => {
+    const viewport = viewportRef.current;
+    if ((e.button !== 1 && !spaceHeld) || !viewport) return;
+    e.preventDefault();
+    setPan({ client: { x: e.clientX, y: e.clientY }, scroll: { x: viewport.scrollLeft, y: viewport.scrollTop } });
+  };
+
+  const getMousePos = (e: React.MouseEvent): Position => {
     const rect = canvasRef.current!.getBoundingClientRect();
-    const mouseX = (e.clientX - rect.left) / zoom;
-    const mouseY = (e.clientY - rect.top) / zoom;
-
-    // Simple hit detection (reverse iterate to select top-most)
-    const clickedLayer = [...layers].reverse().find(layer => {
-        if(!layer.visible || layer.locked) return false;
-
-        if (layer.type === LayerType.TEXT) {
-            // Rough approximation for text hit box
-            const tl = layer as TextLayer;
-            const h = tl.fontSize * tl.lineHeight * tl.content.split('\n').length;
-            // Assuming avg char width is ~0.6em
-            const w = tl.content.length * (tl.fontSize * 0.5); 
-            return mouseX >= tl.x && mouseX <= tl.x + w && mouseY >= tl.y && mouseY <= tl.y + h;
-        } else if (layer.type === LayerType.IMAGE) {
-            const il = layer as ImageLayer;
-            const w = il.width * il.scale;
-            const h = il.height * il.scale;
-            return mouseX >= il.x && mouseX <= il.x + w && mouseY >= il.y && mouseY <= il.y + h;
-        }
-        return false;
-    });
+    return { x: (e.clientX - rect.left) / zoom, y: (e.clientY - rect.top) / zoom };
+  };
 
-    if (clickedLayer) {
-      onSelectLayer(clickedLayer.id);
-      setIsDragging(true);
-      setDragStart({ x: mouseX, y: mouseY });
-      if (clickedLayer.type === LayerType.IMAGE) {
-         setInitialLayerPos({ x: (clickedLayer as ImageLayer).x, y: (clickedLayer as ImageLayer).y });
-      } else {
-         setInitialLayerPos({ x: (clickedLayer as TextLayer).x, y: (clickedLayer as TextLayer).y });
-      }
-    } else {
-      onSelectLayer(null);
-    }
+  // Which transform control of the selected layer is under the point, if any
+  const findControl = (point: Position): { kind: 'pivot' | 'rotate' } | { kind: 'resize'; handle: TransformHandle } | null => {
+    if (!transformTarget) return null;
+    const box = getLayerBox(transformTarget);
+    const tolerance = HANDLE_SIZE / zoom;
+    if (distance(point, getPivotPoint(box)) <= tolerance) return { kind: 'pivot' };
+    if (distance(point, getRotateHandlePoint(box)) <= tolerance) return { kind: 'rotate' };
+    const handle = TRANSFORM_HANDLES.find(h => distance(point, getHandlePoint(box, h)) <= tolerance);
+    return handle ? { kind: 'resize', handle } : null;
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || !selectedLayerId) return;
+  // Shift/Ctrl-click toggles a layer in the selection; dragging moves the whole selection
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button === 1 || spaceHeld) return; // Left to the viewport, which pans
+    const mouse = getMousePos(e);
+    const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+
+    const control = additive ? null : findControl(mouse);
+    if (control && transformTarget) {
+      const box = getLayerBox(transformTarget);
+      if (control.kind === 'resize') setDrag({ mode: 'resize', handle: control.handle, layer: transformTarget, box });
+      else if (control.kind === 'rotate') setDrag({ mode: 'rotate', start: mouse, layer: transformTarget, box });
+      else setDrag({ mode: 'pivot', layer: transformTarget, box });
+      return;
+    }
 
-    const rect = canvasRef.current!.getBoundingClientRect();
-    const mouseX = (e.clientX - rect.left) / zoom;
-    const mouseY = (e.clientY - rect.top) / zoom;
+    // Reverse iterate to select top-most, testing against the measured, rotated lines
+    const clickedLayer = [...layers].reverse().find(layer => layer.visible && !layer.locked && layerContainsPoint(layer, mouse));
 
-    const dx = mouseX - dragStart.x;
-    const dy = mouseY - dragStart.y;
+    if (!clickedLayer) {
+      // Empty canvas starts a marquee
+      if (!additive) onSelectLayers([]);
+      setDrag({ mode: 'marquee', start: mouse, end: mouse, additive });
+      return;
+    }
+
+    if (additive) {
+      onSelectLayers(selectedIds.includes(clickedLayer.id) ? selectedIds.filter(id => id !== clickedLayer.id) : [...selectedIds, clickedLayer.id]);
+      return;
+    }
+
+    const dragIds = selectedIds.includes(clickedLayer.id) ? selectedIds : [clickedLayer.id];
+    if (dragIds !== selectedIds) onSelectLayers(dragIds);
+    const moving = layers.filter(l => dragIds.includes(l.id) && !l.locked);
+    setDrag({
+      mode: 'move',
+      start: mouse,
+      origins: moving.map(l => ({ id: l.id, x: l.x, y: l.y })),
+      sources: getSnapSources(moving),
+      targets: getSnapTargets(layers.filter(l => !dragIds.includes(l.id)), { width, height }, guides.margin),
+      guides: { x: [], y: [] },
+    });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const mouse = getMousePos(e);
+    if (!drag) {
+      const control = findControl(mouse);
+      setHoverCursor(!control ? 'default' : control.kind === 'resize' ? HANDLE_CURSORS[control.handle] : control.kind === 'rotate' ? 'alias' : 'crosshair');
+      return;
+    }
 
-    onUpdateLayerPos(selectedLayerId, initialLayerPos.x + dx, initialLayerPos.y + dy);
+    switch (drag.mode) {
+      case 'marquee':
+        setDrag({ ...drag, end: mouse });
+        break;
+      case 'move': {
+        // Alt moves freely
+        const raw = { x: mouse.x - drag.start.x, y: mouse.y - drag.start.y };
+        const snapped = guides.snap && !e.altKey
+          ? snapOffset(drag.sources, drag.targets, raw, SNAP_DISTANCE / zoom, guides.showGrid ? guides.gridSize : 0)
+          : { offset: raw, guides: { x: [], y: [] } };
+        setDrag({ ...drag, guides: snapped.guides });
+        onMoveLayers(drag.origins.map(o => ({ id: o.id, x: o.x + snapped.offset.x, y: o.y + snapped.offset.y })));
+        break;
+      }
+      case 'resize':
+        onUpdateLayer(drag.layer.id, boxToLayer(drag.layer, resizeBox(drag.box, drag.handle, mouse, e.shiftKey)));
+        break;
+      case 'rotate':
+        // Snaps to 15° steps; Alt rotates freely
+        onUpdateLayer(drag.layer.id, boxToLayer(drag.layer, rotateBox(drag.box, drag.start, mouse, !e.altKey)));
+        break;
+      case 'pivot': {
+        const target = snapPivot(drag.box, mouse, HANDLE_SIZE / zoom) || mouse;
+        onUpdateLayer(drag.layer.id, boxToLayer(drag.layer, setBoxPivot(drag.box, target)));
+        break;
+      }
+    }
   };
 
   const handleMouseUp = () => {
-    setIsDragging(false);
+    if (drag?.mode === 'marquee') {
+      const area = normalizeRect(drag.start, drag.end);
+      const hits = layers.filter(l => l.visible && !l.locked && rectsIntersect(area, getBoundingRect(getLayerBox(l)))).map(l => l.id);
+      // A click without a drag only clears the selection, which mouse-down already did
+      if (area.width > 0 || area.height > 0) {
+        onSelectLayers(drag.additive ? [...selectedIds, ...hits.filter(id => !selectedIds.includes(id))] : hits);
+      }
+    }
+    setDrag(null);
   };
 
+  // Double-clicking the pivot puts it back in the center
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (!transformTarget || findControl(getMousePos(e))?.kind !== 'pivot') return;
+    const box = getLayerBox(transformTarget);
+    const center = toCanvasPoint(box, { x: box.x + box.width / 2, y: box.y + box.height / 2 });
+    onUpdateLayer(transformTarget.id, boxToLayer(transformTarget, setBoxPivot(box, center)));
+  };
+
+  const cursor = pan ? 'grabbing'
+    : spaceHeld ? 'grab'
+    : !drag ? hoverCursor
+    : drag.mode === 'move' ? 'grabbing'
+    : drag.mode === 'resize' ? HANDLE_CURSORS[drag.handle]
+    : drag.mode === 'rotate' ? 'alias'
+    : drag.mode === 'pivot' ? 'crosshair'
+    : 'default';
+
+  // The minimap only earns its space once the page no longer fits
+  const overflowing = visible !== null && (visible.width < width || visible.height < height);
+
   return (
-    <div className="relative overflow-auto flex-1 flex justify-center items-center bg-[#1e1e20] shadow-inner p-8">
-      <canvas
-        ref={canvasRef}
-        width={width * zoom}
-        height={height * zoom}
-        className="bg-black shadow-2xl border border-zinc-700"
-        style={{ width: width * zoom, height: height * zoom, cursor: isDragging ? 'grabbing' : 'default' }}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-      />
+    <div className="relative flex-1 flex min-w-0 min-h-0">
+      <div
+        ref={viewportRef}
+        className="flex-1 flex overflow-auto bg-[#1e1e20] shadow-inner"
+        style={{ cursor: pan ? 'grabbing' : spaceHeld ? 'grab' : undefined }}
+        onMouseDown={handlePanStart}
+        onScroll={() => setVisible(measureVisible())}
+      >
+        {/* Auto margins center a small page without clipping a large one when scrolled */}
+        <div className="m-auto p-8 shrink-0">
+          <div className="relative">
+            <canvas
+              ref={canvasRef}
+              width={width * zoom}
+              height={height * zoom}
+              className="block bg-black shadow-2xl border border-zinc-700"
+              style={{ width: width * zoom, height: height * zoom, cursor }}
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseUp}
+              onDoubleClick={handleDoubleClick}
+            />
+            {guides.showRulers && (
+              <>
+                <Ruler orientation="horizontal" length={width} zoom={zoom} thickness={RULER_SIZE} className="absolute left-0" style={{ top: -RULER_SIZE }} />
+                <Ruler orientation="vertical" length={height} zoom={zoom} thickness={RULER_SIZE} className="absolute top-0" style={{ left: -RULER_SIZE }} />
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+      {overflowing && layers.length > 0 && (
+        <Minimap
+          layers={layers}
+          images={loadedImages}
+          size={{ width, height }}
+          visible={visible}
+          onNavigate={(center) => scrollPointTo(center, getViewCenter())}
+        />
+      )}
       {layers.length === 0 && (
          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
             <div className="text-zinc-500 text-center">
@@ -252,4 +549,4 @@ const CanvasRenderer: React.FC<CanvasRendererProps> = ({
   );
 };
 
-export default CanvasRenderer;
\ No newline at end of file
+export default CanvasRenderer;
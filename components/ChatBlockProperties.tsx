@@ -0,0 +1,141 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus } from 'lucide-react';
+import { ChatBlockLayer, ChatBlockLine } from '../types.ts';
+import { generateId, getChatBlockTop, hasColorCodes, parseColorCodes, runsToColorCodes, runsToPlainText } from '../utils.ts';
+
+interface ChatBlockPropertiesProps {
+  layer: ChatBlockLayer;
+  onChange: (updates: Partial<ChatBlockLayer>) => void;
+}
+
+const ChatBlockProperties: React.FC<ChatBlockPropertiesProps> = ({ layer, onChange }) => {
+  const updateLine = (id: string, updates: Partial<ChatBlockLine>) => {
+    onChange({ lines: layer.lines.map(l => l.id === id ? { ...l, ...updates } : l) });
+  };
+
+  // Same inline {RRGGBB} editing as text layers
+  const handleLineText = (line: ChatBlockLine, text: string) => {
+    if (hasColorCodes(text)) {
+      const runs = parseColorCodes(text);
+      updateLine(line.id, { content: runsToPlainText(runs), runs });
+    } else {
+      updateLine(line.id, { content: text, runs: undefined });
+    }
+  };
+
+  const moveLine = (index: number, direction: -1 | 1) => {
+    const newIndex = index + direction;
+    if (newIndex < 0 || newIndex >= layer.lines.length) return;
+    const lines = [...layer.lines];
+    const [moved] = lines.splice(index, 1);
+    lines.splice(newIndex, 0, moved);
+    onChange({ lines });
+  };
+
+  // Keep the block visually in place when the anchor flips
+  const changeAnchor = (anchor: ChatBlockLayer['anchor']) => {
+    const top = getChatBlockTop(layer);
+    onChange({ anchor, y: anchor === 'bottom-left' ? top + layer.lines.length * layer.lineSpacing : top });
+  };
+
+  return (
+    <>
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase">Layout</label>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="text-xs text-zinc-500 mb-1 block">Size (px)</span>
+            <input
+              type="number"
+              value={layer.fontSize}
+              onChange={(e) => onChange({ fontSize: Number(e.target.value) })}
+              className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+            />
+          </div>
+          <div>
+            <span className="text-xs text-zinc-500 mb-1 block">Line Spacing (px)</span>
+            <input
+              type="number"
+              value={layer.lineSpacing}
+              onChange={(e) => onChange({ lineSpacing: Number(e.target.value) })}
+              className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+            />
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 pt-2">
+          {(['top-left', 'bottom-left'] as const).map(anchor => (
+            <button
+              key={anchor}
+              onClick={() => changeAnchor(anchor)}
+              className={`flex-1 py-1 text-sm rounded border ${layer.anchor === anchor ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}
+            >
+              {anchor === 'top-left' ? 'Top Anchor' : 'Bottom Anchor'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onChange({ isBold: !layer.isBold })}
+            className={`flex-1 py-1 text-sm rounded border ${layer.isBold ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}
+          >
+            Bold
+          </button>
+          <button
+            onClick={() => onChange({ isItalic: !layer.isItalic })}
+            className={`flex-1 py-1 text-sm rounded border ${layer.isItalic ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}
+          >
+            Italic
+          </button>
+        </div>
+        <div>
+          <div className="flex justify-between text-xs text-zinc-500 mb-1">
+            <span>Stroke Width</span>
+            <span>{layer.strokeWidth}px</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="10"
+            step="0.5"
+            value={layer.strokeWidth}
+            onChange={(e) => onChange({ strokeWidth: Number(e.target.value) })}
+            className="w-full h-2 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-zinc-400 uppercase">Lines ({layer.lines.length})</label>
+        <div className="space-y-1 max-h-80 overflow-y-auto">
+          {layer.lines.map((line, index) => (
+            <div key={line.id} className="flex items-center gap-1 bg-zinc-800/60 rounded p-1">
+              <input
+                type="color"
+                value={line.color}
+                onChange={(e) => updateLine(line.id, { color: e.target.value, proximity: undefined })}
+                className="w-5 h-5 bg-transparent border-0 p-0 shrink-0"
+              />
+              <input
+                type="text"
+                value={line.runs ? runsToColorCodes(line.runs) : line.content}
+                onChange={(e) => handleLineText(line, e.target.value)}
+                className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-xs text-zinc-200"
+              />
+              <button onClick={() => moveLine(index, -1)} disabled={index === 0} className="text-zinc-500 hover:text-white disabled:opacity-30"><ArrowUp className="w-3 h-3" /></button>
+              <button onClick={() => moveLine(index, 1)} disabled={index === layer.lines.length - 1} className="text-zinc-500 hover:text-white disabled:opacity-30"><ArrowDown className="w-3 h-3" /></button>
+              <button onClick={() => onChange({ lines: layer.lines.filter(l => l.id !== line.id) })} className="text-red-400 hover:text-red-300"><Trash2 className="w-3 h-3" /></button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => onChange({ lines: [...layer.lines, { id: generateId(), content: 'New line', color: '#FFFFFF' }] })}
+          className="w-full flex items-center justify-center py-1 text-xs text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 rounded border border-zinc-700"
+        >
+          <Plus className="w-3 h-3 mr-1" /> Add Line
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default ChatBlockProperties;
@@ -0,0 +1,168 @@
+import React from 'react';
+import { Trash2, Plus, Download, Upload, Copy } from 'lucide-react';
+import { ChatCategory, ChatFilterMatch, ChatFilterRule, ChatFilterSet } from '../types.ts';
+import { FILTER_MATCH_LABELS, parseFilterSetFile } from '../chatFilters.ts';
+import { CHAT_CATEGORY_LABELS, compileRule } from '../chatProfiles.ts';
+import { generateId } from '../utils.ts';
+
+interface ChatFilterEditorProps {
+  sets: ChatFilterSet[];
+  activeId: string; // '' = filtering off
+  onSelect: (id: string) => void;
+  onChange: (sets: ChatFilterSet[]) => void;
+}
+
+const ChatFilterEditor: React.FC<ChatFilterEditorProps> = ({ sets, activeId, onSelect, onChange }) => {
+  const active = sets.find(s => s.id === activeId) || null;
+
+  const updateActive = (updates: Partial<ChatFilterSet>) => {
+    if (!active) return;
+    onChange(sets.map(s => s.id === active.id ? { ...s, ...updates } : s));
+  };
+
+  const updateRule = (ruleId: string, updates: Partial<ChatFilterRule>) => {
+    if (!active) return;
+    updateActive({ rules: active.rules.map(r => r.id === ruleId ? { ...r, ...updates } : r) });
+  };
+
+  const addSet = (base: ChatFilterSet | null) => {
+    const set: ChatFilterSet = {
+      id: generateId(),
+      name: base ? `${base.name} (Copy)` : 'New Filter Set',
+      rules: base ? base.rules.map(r => ({ ...r, id: generateId() })) : [],
+    };
+    onChange([...sets, set]);
+    onSelect(set.id);
+  };
+
+  const deleteSet = () => {
+    if (!active) return;
+    onChange(sets.filter(s => s.id !== active.id));
+    onSelect('');
+  };
+
+  const addRule = () => {
+    if (!active) return;
+    updateActive({
+      rules: [...active.rules, { id: generateId(), action: 'exclude', match: ChatFilterMatch.REGEX, value: '', enabled: true }],
+    });
+  };
+
+  const exportSet = () => {
+    if (!active) return;
+    const blob = new Blob([JSON.stringify({ name: active.name, rules: active.rules }, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.download = `${active.name.replace(/[^a-z0-9_-]+/gi, '_')}.filters.json`;
+    link.href = URL.createObjectURL(blob);
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const importSet = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const parsed = parseFilterSetFile(event.target?.result as string);
+      if (!parsed) {
+        alert('This file is not a valid filter set.');
+        return;
+      }
+      const set = { ...parsed, id: generateId(), rules: parsed.rules.map(r => ({ ...r, id: generateId() })) };
+      onChange([...sets, set]);
+      onSelect(set.id);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <select
+          value={activeId}
+          onChange={(e) => onSelect(e.target.value)}
+          className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+        >
+          <option value="">No filtering</option>
+          {sets.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <button onClick={() => addSet(active)} title={active ? 'Duplicate set' : 'New set'} className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded">
+          {active ? <Copy className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+        </button>
+        <button onClick={exportSet} disabled={!active} title="Export set for sharing" className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded disabled:opacity-30">
+          <Download className="w-3.5 h-3.5" />
+        </button>
+        <label title="Import shared set" className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded cursor-pointer">
+          <Upload className="w-3.5 h-3.5" />
+          <input type="file" accept=".json,application/json" onChange={importSet} className="hidden" />
+        </label>
+        <button onClick={deleteSet} disabled={!active} title="Delete set" className="p-1.5 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded disabled:opacity-30">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {active && (
+        <>
+          <input
+            type="text"
+            value={active.name}
+            onChange={(e) => updateActive({ name: e.target.value })}
+            className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+          />
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {active.rules.map(r => {
+              const invalid = r.match === ChatFilterMatch.REGEX && r.value !== '' && !compileRule({ pattern: r.value, flags: 'i' });
+              return (
+                <div key={r.id} className={`flex items-center gap-1 bg-zinc-800/60 rounded p-1 ${r.enabled ? '' : 'opacity-50'}`}>
+                  <input type="checkbox" checked={r.enabled} onChange={(e) => updateRule(r.id, { enabled: e.target.checked })} className="accent-indigo-500 shrink-0" />
+                  <button
+                    onClick={() => updateRule(r.id, { action: r.action === 'include' ? 'exclude' : 'include' })}
+                    className={`w-8 shrink-0 text-[10px] font-bold rounded ${r.action === 'include' ? 'text-green-400 bg-green-900/30' : 'text-red-400 bg-red-900/30'}`}
+                  >
+                    {r.action === 'include' ? 'KEEP' : 'DROP'}
+                  </button>
+                  <select
+                    value={r.match}
+                    onChange={(e) => {
+                      const match = e.target.value as ChatFilterMatch;
+                      updateRule(r.id, { match, value: match === ChatFilterMatch.CATEGORY ? ChatCategory.OOC : '' });
+                    }}
+                    className="w-16 shrink-0 bg-zinc-900 border border-zinc-700 rounded text-[10px] text-zinc-300"
+                  >
+                    {Object.values(ChatFilterMatch).map(m => <option key={m} value={m}>{FILTER_MATCH_LABELS[m]}</option>)}
+                  </select>
+                  {r.match === ChatFilterMatch.CATEGORY ? (
+                    <select
+                      value={r.value}
+                      onChange={(e) => updateRule(r.id, { value: e.target.value })}
+                      className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded text-[10px] text-zinc-300"
+                    >
+                      {Object.values(ChatCategory).map(c => <option key={c} value={c}>{CHAT_CATEGORY_LABELS[c]}</option>)}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={r.value}
+                      placeholder={r.match === ChatFilterMatch.PLAYER ? 'Firstname_Lastname' : 'pattern'}
+                      onChange={(e) => updateRule(r.id, { value: e.target.value })}
+                      className={`flex-1 min-w-0 bg-zinc-900 border rounded px-1 text-[10px] font-mono text-zinc-300 ${invalid ? 'border-red-500' : 'border-zinc-700'}`}
+                    />
+                  )}
+                  <button onClick={() => updateActive({ rules: active.rules.filter(x => x.id !== r.id) })} className="text-red-400 hover:text-red-300 shrink-0">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <button onClick={addRule} className="w-full flex items-center justify-center py-1 text-xs text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 rounded border border-zinc-700">
+            <Plus className="w-3 h-3 mr-1" /> Add Rule
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChatFilterEditor;
@@ -0,0 +1,142 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Trash2, Copy, Plus } from 'lucide-react';
+import { ChatCategory, ChatFormatProfile, ChatFormatRule } from '../types.ts';
+import { CHAT_CATEGORY_LABELS, compileRule } from '../chatProfiles.ts';
+import { generateId } from '../utils.ts';
+
+interface ChatProfileEditorProps {
+  profiles: ChatFormatProfile[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onChange: (profiles: ChatFormatProfile[]) => void;
+}
+
+const ChatProfileEditor: React.FC<ChatProfileEditorProps> = ({ profiles, activeId, onSelect, onChange }) => {
+  const active = profiles.find(p => p.id === activeId) || profiles[0];
+
+  const updateActive = (updates: Partial<ChatFormatProfile>) => {
+    onChange(profiles.map(p => p.id === active.id ? { ...p, ...updates } : p));
+  };
+
+  const updateRule = (ruleId: string, updates: Partial<ChatFormatRule>) => {
+    updateActive({ rules: active.rules.map(r => r.id === ruleId ? { ...r, ...updates } : r) });
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const newIndex = index + direction;
+    if (newIndex < 0 || newIndex >= active.rules.length) return;
+    const rules = [...active.rules];
+    const [moved] = rules.splice(index, 1);
+    rules.splice(newIndex, 0, moved);
+    updateActive({ rules });
+  };
+
+  // Built-ins are read-only; editing starts from a copy
+  const duplicateProfile = () => {
+    const copy: ChatFormatProfile = {
+      ...active,
+      id: generateId(),
+      name: `${active.name} (Custom)`,
+      builtIn: false,
+      rules: active.rules.map(r => ({ ...r, id: generateId() })),
+    };
+    onChange([...profiles, copy]);
+    onSelect(copy.id);
+  };
+
+  const deleteProfile = () => {
+    if (active.builtIn) return;
+    const remaining = profiles.filter(p => p.id !== active.id);
+    onChange(remaining);
+    onSelect(remaining[0].id);
+  };
+
+  const addRule = () => {
+    updateActive({
+      rules: [...active.rules, { id: generateId(), category: ChatCategory.OTHER, pattern: '', flags: 'i', color: '#FFFFFF' }],
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={active.id}
+          onChange={(e) => onSelect(e.target.value)}
+          className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+        >
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name}{p.builtIn ? '' : ' *'}</option>
+          ))}
+        </select>
+        <button onClick={duplicateProfile} title="Duplicate as custom profile" className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded">
+          <Copy className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={deleteProfile} disabled={active.builtIn} title="Delete profile" className="p-1.5 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded disabled:opacity-30">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {active.builtIn ? (
+        <p className="text-[10px] text-zinc-500">Built-in profile. Duplicate it to edit the rules.</p>
+      ) : (
+        <input
+          type="text"
+          value={active.name}
+          onChange={(e) => updateActive({ name: e.target.value })}
+          className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+        />
+      )}
+
+      <div className="space-y-1 max-h-56 overflow-y-auto">
+        {active.rules.map((r, index) => {
+          const invalid = r.pattern !== '' && !compileRule(r);
+          return (
+            <div key={r.id} className="flex items-center gap-1 bg-zinc-800/60 rounded p-1">
+              <input
+                type="color"
+                value={r.color}
+                disabled={active.builtIn}
+                onChange={(e) => updateRule(r.id, { color: e.target.value.toUpperCase() })}
+                className="w-5 h-5 bg-transparent border-0 p-0 shrink-0"
+              />
+              <select
+                value={r.category}
+                disabled={active.builtIn}
+                onChange={(e) => updateRule(r.id, { category: e.target.value as ChatCategory })}
+                className="w-20 bg-zinc-900 border border-zinc-700 rounded text-[10px] text-zinc-300 shrink-0"
+              >
+                {Object.values(ChatCategory).map(c => (
+                  <option key={c} value={c}>{CHAT_CATEGORY_LABELS[c]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={r.pattern}
+                disabled={active.builtIn}
+                onChange={(e) => updateRule(r.id, { pattern: e.target.value })}
+                title={invalid ? 'Invalid regular expression' : r.pattern}
+                className={`flex-1 min-w-0 bg-zinc-900 border rounded px-1 text-[10px] font-mono text-zinc-300 ${invalid ? 'border-red-500' : 'border-zinc-700'}`}
+              />
+              {!active.builtIn && (
+                <>
+                  <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="text-zinc-500 hover:text-white disabled:opacity-30"><ArrowUp className="w-3 h-3" /></button>
+                  <button onClick={() => moveRule(index, 1)} disabled={index === active.rules.length - 1} className="text-zinc-500 hover:text-white disabled:opacity-30"><ArrowDown className="w-3 h-3" /></button>
+                  <button onClick={() => updateActive({ rules: active.rules.filter(x => x.id !== r.id) })} className="text-red-400 hover:text-red-300"><Trash2 className="w-3 h-3" /></button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {!active.builtIn && (
+        <button onClick={addRule} className="w-full flex items-center justify-center py-1 text-xs text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 rounded border border-zinc-700">
+          <Plus className="w-3 h-3 mr-1" /> Add Rule
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ChatProfileEditor;
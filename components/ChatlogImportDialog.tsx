@@ -0,0 +1,122 @@
+import React, { useState, useMemo } from 'react';
+import { X, Clock } from 'lucide-react';
+import { ChatlogEntry } from '../types.ts';
+import { isWithinTimeRange } from '../utils.ts';
+
+interface ChatlogImportDialogProps {
+  fileName: string;
+  entries: ChatlogEntry[];
+  removedIndexes: Set<number>; // Lines the active filter rules will drop
+  onCancel: () => void;
+  onImport: (entries: ChatlogEntry[]) => void;
+}
+
+const TIME_INPUT_REGEX = /^\d{2}:\d{2}:\d{2}$/;
+
+const ChatlogImportDialog: React.FC<ChatlogImportDialogProps> = ({ fileName, entries, removedIndexes, onCancel, onImport }) => {
+  const timestamps = entries.filter(e => e.timestamp).map(e => e.timestamp!);
+  const [from, setFrom] = useState(timestamps[0] || '00:00:00');
+  const [to, setTo] = useState(timestamps[timestamps.length - 1] || '23:59:59');
+  const [selected, setSelected] = useState<Set<number>>(() => new Set());
+  const [lastClicked, setLastClicked] = useState<number | null>(null);
+
+  const rangeValid = TIME_INPUT_REGEX.test(from) && TIME_INPUT_REGEX.test(to);
+
+  const selectedEntries = useMemo(() => entries.filter(e => selected.has(e.index)), [entries, selected]);
+
+  const selectTimeRange = () => {
+    if (!rangeValid) return;
+    // Untimestamped lines follow the timestamped line above them
+    const next = new Set<number>();
+    let inRange = false;
+    entries.forEach(e => {
+      if (e.timestamp) inRange = isWithinTimeRange(e.timestamp, from, to);
+      if (inRange) next.add(e.index);
+    });
+    setSelected(next);
+  };
+
+  // Shift-click toggles every line between the last click and this one
+  const toggleLine = (index: number, shiftKey: boolean) => {
+    const next = new Set(selected);
+    const value = !selected.has(index);
+    const [a, b] = shiftKey && lastClicked !== null
+      ? [Math.min(lastClicked, index), Math.max(lastClicked, index)]
+      : [index, index];
+    for (let i = a; i <= b; i++) {
+      if (value) next.add(i);
+      else next.delete(i);
+    }
+    setSelected(next);
+    setLastClicked(index);
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-8">
+      <div className="w-full max-w-3xl max-h-full bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-zinc-200">Import Chatlog</h3>
+            <p className="text-xs text-zinc-500">{fileName} · {entries.length} lines</p>
+          </div>
+          <button onClick={onCancel} className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-zinc-800 flex flex-wrap items-center gap-2">
+          <Clock className="w-4 h-4 text-zinc-500" />
+          <input
+            type="text"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className={`w-24 bg-zinc-800 border rounded px-2 py-1 text-xs font-mono text-zinc-200 ${TIME_INPUT_REGEX.test(from) ? 'border-zinc-700' : 'border-red-500'}`}
+          />
+          <span className="text-xs text-zinc-500">to</span>
+          <input
+            type="text"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className={`w-24 bg-zinc-800 border rounded px-2 py-1 text-xs font-mono text-zinc-200 ${TIME_INPUT_REGEX.test(to) ? 'border-zinc-700' : 'border-red-500'}`}
+          />
+          <button onClick={selectTimeRange} disabled={!rangeValid || timestamps.length === 0} className="px-3 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-xs rounded border border-zinc-700 disabled:opacity-50">
+            Select Range
+          </button>
+          <div className="flex-1" />
+          <button onClick={() => setSelected(new Set(entries.map(e => e.index)))} className="px-3 py-1 text-xs text-zinc-400 hover:text-white">All</button>
+          <button onClick={() => setSelected(new Set())} className="px-3 py-1 text-xs text-zinc-400 hover:text-white">None</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto min-h-0 font-mono text-xs">
+          {entries.map(entry => (
+            <div
+              key={entry.index}
+              onClick={(e) => toggleLine(entry.index, e.shiftKey)}
+              className={`flex items-center px-4 py-0.5 cursor-pointer select-none ${selected.has(entry.index) ? 'bg-indigo-500/15 text-zinc-100' : 'text-zinc-500 hover:bg-zinc-800'}`}
+            >
+              <input type="checkbox" readOnly checked={selected.has(entry.index)} className="mr-3 accent-indigo-500" />
+              <span className="w-20 shrink-0 text-zinc-500">{entry.timestamp || ''}</span>
+              <span className={`truncate ${removedIndexes.has(entry.index) ? 'line-through text-red-400/70' : ''}`}>{entry.text}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex items-center justify-between">
+          <span className="text-xs text-zinc-500">{selectedEntries.length} selected · shift-click to select a span</span>
+          <div className="flex space-x-2">
+            <button onClick={onCancel} className="px-4 py-1.5 text-sm text-zinc-400 hover:text-white">Cancel</button>
+            <button
+              onClick={() => onImport(selectedEntries)}
+              disabled={selectedEntries.length === 0}
+              className="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold rounded shadow"
+            >
+              Add {selectedEntries.length} Lines
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatlogImportDialog;
@@ -0,0 +1,119 @@
+import React, { useState, useMemo } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { ChatlogEntry } from '../types.ts';
+import { ChatlogSource, mergeChatlogs, hasTimestamps, getSourceLabels } from '../chatMerge.ts';
+
+interface ChatlogMergeDialogProps {
+  sources: ChatlogSource[];
+  onCancel: () => void;
+  onImport: (entries: ChatlogEntry[]) => void;
+}
+
+const FLAG_LABELS = {
+  'single-source': 'Only one log',
+  'conflict': 'Logs disagree',
+};
+
+const ChatlogMergeDialog: React.FC<ChatlogMergeDialogProps> = ({ sources, onCancel, onImport }) => {
+  const [tolerance, setTolerance] = useState(2);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [rejected, setRejected] = useState<Set<number>>(() => new Set());
+
+  const merged = useMemo(() => mergeChatlogs(sources, tolerance), [sources, tolerance]);
+  const flaggedCount = merged.filter(m => m.flag).length;
+  const untimed = sources.filter(s => !hasTimestamps(s));
+  const visible = flaggedOnly ? merged.filter(m => m.flag) : merged;
+
+  // Indexes shift when the tolerance changes, so earlier rejections no longer apply
+  const changeTolerance = (value: number) => {
+    setTolerance(value);
+    setRejected(new Set());
+  };
+
+  const toggleLine = (index: number) => {
+    const next = new Set(rejected);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    setRejected(next);
+  };
+
+  const kept = merged.filter(m => !rejected.has(m.entry.index)).map(m => m.entry);
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-8">
+      <div className="w-full max-w-3xl max-h-full bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-zinc-200">Merge Chatlogs</h3>
+            <p className="text-xs text-zinc-500">{getSourceLabels(sources).join(', ')} · {merged.length} lines after merge</p>
+          </div>
+          <button onClick={onCancel} className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-zinc-800 flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+          <label className="flex items-center gap-2">
+            Clock drift
+            <input
+              type="number"
+              min="0"
+              max="30"
+              value={tolerance}
+              onChange={(e) => changeTolerance(Math.max(0, Number(e.target.value)))}
+              className="w-14 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-zinc-200"
+            />
+            sec
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} className="accent-indigo-500" />
+            Show only flagged ({flaggedCount})
+          </label>
+        </div>
+
+        {untimed.length > 0 && (
+          <div className="px-4 py-2 border-b border-zinc-800 flex items-center text-xs text-amber-400">
+            <AlertTriangle className="w-3.5 h-3.5 mr-2 shrink-0" />
+            No timestamps in {untimed.map(s => s.name).join(', ')} - these lines cannot be lined up and are placed first.
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto min-h-0 font-mono text-xs">
+          {visible.map(line => (
+            <div
+              key={line.entry.index}
+              onClick={() => toggleLine(line.entry.index)}
+              className={`flex items-center px-4 py-0.5 cursor-pointer select-none hover:bg-zinc-800 ${rejected.has(line.entry.index) ? 'text-zinc-600' : 'text-zinc-200'}`}
+            >
+              <input type="checkbox" readOnly checked={!rejected.has(line.entry.index)} className="mr-3 accent-indigo-500" />
+              <span className="w-20 shrink-0 text-zinc-500">{line.entry.timestamp || ''}</span>
+              <span className={`flex-1 truncate ${rejected.has(line.entry.index) ? 'line-through' : ''}`}>{line.entry.text}</span>
+              <span className="ml-2 shrink-0 text-zinc-500" title={line.sources.join(', ')}>{line.sources.length}/{sources.length}</span>
+              {line.flag && (
+                <span className={`ml-2 w-24 shrink-0 text-[10px] text-center rounded ${line.flag === 'conflict' ? 'text-red-400 bg-red-900/30' : 'text-amber-400 bg-amber-900/30'}`}>
+                  {FLAG_LABELS[line.flag]}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex items-center justify-between">
+          <span className="text-xs text-zinc-500">Click a line to leave it out of the transcript</span>
+          <div className="flex space-x-2">
+            <button onClick={onCancel} className="px-4 py-1.5 text-sm text-zinc-400 hover:text-white">Cancel</button>
+            <button
+              onClick={() => onImport(kept)}
+              disabled={kept.length === 0}
+              className="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold rounded shadow"
+            >
+              Add {kept.length} Lines
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatlogMergeDialog;
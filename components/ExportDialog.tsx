@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react';
+import { X, Download, Type, Image as ImageIcon, MessageSquare } from 'lucide-react';
+import { Composition, ExportFormat, ExportLayerMode, ExportSettings, LayerType, Project, Rect } from '../types.ts';
+import { canvasToBlob, clampCrop, formatFileSize, supportsTransparency } from '../utils.ts';
+import { renderExport, isOverlayExport, canEmbedProject, getExportLayers } from '../exporter.ts';
+import { getLayersBounds } from '../geometry.ts';
+import { serializeProject } from '../project.ts';
+
+interface ExportDialogProps {
+  composition: Composition;
+  project: Project;
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  onCancel: () => void;
+  onExport: () => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  webp: 'WebP',
+};
+
+const SCALES = [0.5, 1, 1.5, 2, 3, 4];
+
+const LAYER_MODE_LABELS: Record<ExportLayerMode, string> = {
+  all: 'Everything',
+  text: 'Text Only',
+  chosen: 'Chosen Layers',
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ composition, project, settings, onChange, onCancel, onExport }) => {
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const [estimateFailed, setEstimateFailed] = useState(false);
+  const [trimmedSize, setTrimmedSize] = useState<{ width: number; height: number } | null>(null);
+  const { layers, canvasSize } = composition;
+  const overlay = isOverlayExport(settings);
+  const embedding = settings.embedProject && canEmbedProject(settings);
+  const crop = settings.crop ? clampCrop(settings.crop, canvasSize) : null;
+  const outputWidth = Math.round((crop ? crop.width : canvasSize.width) * settings.scale);
+  const outputHeight = Math.round((crop ? crop.height : canvasSize.height) * settings.scale);
+
+  // Encode a real file in the background; debounced so slider drags don't queue renders
+  useEffect(() => {
+    let cancelled = false;
+    setEstimate(null);
+    setEstimateFailed(false);
+    const timer = setTimeout(async () => {
+      try {
+        const { canvas, placement } = await renderExport(composition, settings);
+        const blob = await canvasToBlob(canvas, settings.format, settings.quality);
+        if (cancelled) return;
+        // The embedded project is mostly base64 images, which barely compress
+        setEstimate(blob.size + (embedding ? serializeProject(project).length : 0));
+        setTrimmedSize(placement && settings.trim ? { width: canvas.width, height: canvas.height } : null);
+      } catch {
+        // Cleared rather than left showing the previous settings' size
+        if (cancelled) return;
+        setEstimate(null);
+        setEstimateFailed(true);
+        setTrimmedSize(null);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [composition, settings, embedding]);
+
+  const update = (updates: Partial<ExportSettings>) => onChange({ ...settings, ...updates });
+
+  const toggleLayer = (id: string) => {
+    update({ layerIds: settings.layerIds.includes(id) ? settings.layerIds.filter(x => x !== id) : [...settings.layerIds, id] });
+  };
+
+  const updateCrop = (key: keyof Rect, value: number) => {
+    if (!crop) return;
+    update({ crop: clampCrop({ ...crop, [key]: value }, canvasSize) });
+  };
+
+  // Region around the measured outlines of everything being exported, rounded out to whole pixels
+  const fitCropToLayers = () => {
+    const bounds = getLayersBounds(getExportLayers(layers, settings).filter(l => l.visible));
+    if (!bounds) return;
+    const x = Math.floor(bounds.x);
+    const y = Math.floor(bounds.y);
+    update({ crop: clampCrop({ x, y, width: Math.ceil(bounds.x + bounds.width) - x, height: Math.ceil(bounds.y + bounds.height) - y }, canvasSize) });
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-8">
+      <div className="w-full max-w-md max-h-full bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <h3 className="font-semibold text-zinc-200">Export Image</h3>
+          <button onClick={onCancel} className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-zinc-400 uppercase">Format</label>
+            <div className="flex items-center space-x-2">
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => update({ format })}
+                  disabled={overlay && !supportsTransparency(format)}
+                  className={`flex-1 py-1 text-sm rounded border disabled:opacity-30 ${settings.format === format ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}
+                >
+                  {FORMAT_LABELS[format]}
+                </button>
+              ))}
+            </div>
+            {settings.format !== 'png' && (
+              <div>
+                <div className="flex justify-between text-xs text-zinc-500 mb-1">
+                  <span>Quality</span>
+                  <span>{Math.round(settings.quality * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min="0.1"
+                  max="1"
+                  step="0.01"
+                  value={settings.quality}
+                  onChange={(e) => update({ quality: Number(e.target.value) })}
+                  className="w-full h-2 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-zinc-400 uppercase">Layers</label>
+            <div className="flex items-center space-x-2">
+              {(Object.keys(LAYER_MODE_LABELS) as ExportLayerMode[]).map(layerMode => (
+                <button
+                  key={layerMode}
+                  onClick={() => update({ layerMode, format: layerMode !== 'all' && settings.format === 'jpeg' ? 'png' : settings.format })}
+                  className={`flex-1 py-1 text-xs rounded border ${settings.layerMode === layerMode ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}
+                >
+                  {LAYER_MODE_LABELS[layerMode]}
+                </button>
+              ))}
+            </div>
+            {settings.layerMode === 'chosen' && (
+              <div className="max-h-32 overflow-y-auto space-y-0.5 bg-zinc-800/60 rounded p-1">
+                {[...layers].reverse().map(layer => (
+                  <label key={layer.id} className="flex items-center px-1 py-0.5 text-xs text-zinc-300 cursor-pointer hover:bg-zinc-800 rounded">
+                    <input type="checkbox" checked={settings.layerIds.includes(layer.id)} onChange={() => toggleLayer(layer.id)} className="mr-2 accent-indigo-500" />
+                    {layer.type === LayerType.IMAGE && <ImageIcon className="w-3 h-3 mr-1.5 text-zinc-500" />}
+                    {layer.type === LayerType.TEXT && <Type className="w-3 h-3 mr-1.5 text-zinc-500" />}
+                    {layer.type === LayerType.CHAT_BLOCK && <MessageSquare className="w-3 h-3 mr-1.5 text-zinc-500" />}
+                    <span className="truncate">{layer.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            {overlay && (
+              <>
+                <label className="flex items-center text-sm text-zinc-300 cursor-pointer">
+                  <input type="checkbox" checked={settings.trim} onChange={(e) => update({ trim: e.target.checked })} className="mr-2 accent-indigo-500" />
+                  Trim to content
+                </label>
+                <label className="flex items-center text-sm text-zinc-300 cursor-pointer">
+                  <input type="checkbox" checked={settings.sidecar} onChange={(e) => update({ sidecar: e.target.checked })} className="mr-2 accent-indigo-500" />
+                  Placement JSON sidecar
+                </label>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-zinc-400 uppercase">Scale</label>
+            <div className="flex items-center space-x-1">
+              {SCALES.map(scale => (
+                <button
+                  key={scale}
+                  onClick={() => update({ scale })}
+                  className={`flex-1 py-1 text-xs rounded border ${settings.scale === scale ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}
+                >
+                  {scale}x
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center text-sm text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={(settings.transparent || overlay) && supportsTransparency(settings.format)}
+                disabled={overlay || !supportsTransparency(settings.format)}
+                onChange={(e) => update({ transparent: e.target.checked })}
+                className="mr-2 accent-indigo-500"
+              />
+              Transparent background
+              {!supportsTransparency(settings.format) && <span className="ml-2 text-xs text-zinc-500">(not in JPEG)</span>}
+            </label>
+            <label className="flex items-center text-sm text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!crop}
+                onChange={(e) => update({ crop: e.target.checked ? { x: 0, y: 0, width: canvasSize.width, height: canvasSize.height } : null })}
+                className="mr-2 accent-indigo-500"
+              />
+              Export region only
+            </label>
+            {canEmbedProject(settings) && (
+              <label className="flex items-center text-sm text-zinc-300 cursor-pointer">
+                <input type="checkbox" checked={settings.embedProject} onChange={(e) => update({ embedProject: e.target.checked })} className="mr-2 accent-indigo-500" />
+                Keep editable (embed project in PNG)
+              </label>
+            )}
+            {crop && (
+              <>
+                <div className="grid grid-cols-4 gap-2">
+                  {(['x', 'y', 'width', 'height'] as const).map(key => (
+                    <div key={key}>
+                      <span className="text-xs text-zinc-500 mb-1 block">{key === 'width' ? 'W' : key === 'height' ? 'H' : key.toUpperCase()}</span>
+                      <input
+                        type="number"
+                        value={crop[key]}
+                        onChange={(e) => updateCrop(key, Number(e.target.value))}
+                        className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <button onClick={fitCropToLayers} className="text-xs text-indigo-400 hover:text-indigo-300">
+                  Fit region to exported layers
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex items-center justify-between">
+          <span className="text-xs text-zinc-500">
+            {trimmedSize ? trimmedSize.width : outputWidth} × {trimmedSize ? trimmedSize.height : outputHeight} · {estimateFailed ? 'size unknown' : estimate === null ? 'estimating…' : `~${formatFileSize(estimate)}`}
+          </span>
+          <div className="flex space-x-2">
+            <button onClick={onCancel} className="px-4 py-1.5 text-sm text-zinc-400 hover:text-white">Cancel</button>
+            <button
+              onClick={onExport}
+              disabled={settings.layerMode === 'chosen' && settings.layerIds.length === 0}
+              className="flex items-center px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold rounded shadow"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export {FORMAT_LABELS[settings.format]}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Magnet, Grid3x3, Ruler } from 'lucide-react';
+import { GuideSettings } from '../types.ts';
+
+interface GuidesMenuProps {
+  settings: GuideSettings;
+  onChange: (settings: GuideSettings) => void;
+}
+
+// Snap toggle plus a dropdown for the grid, margins and rulers
+const GuidesMenu: React.FC<GuidesMenuProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const update = (updates: Partial<GuideSettings>) => onChange({ ...settings, ...updates });
+
+  return (
+    <div className="relative flex items-center space-x-1">
+      <button
+        onClick={() => update({ snap: !settings.snap })}
+        title="Snap to guides (hold Alt to move freely)"
+        className={`p-1.5 rounded ${settings.snap ? 'bg-indigo-600 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-700'}`}
+      >
+        <Magnet className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => setOpen(!open)}
+        title="Grid and rulers"
+        className={`p-1.5 rounded ${open ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-700'}`}
+      >
+        <Grid3x3 className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute top-full right-0 mt-2 z-50 w-56 bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl p-3 space-y-3 text-sm text-zinc-300">
+            <label className="flex items-center">
+              <input type="checkbox" checked={settings.showGrid} onChange={(e) => update({ showGrid: e.target.checked })} className="mr-2 accent-indigo-500" />
+              <Grid3x3 className="w-3.5 h-3.5 mr-1.5 text-zinc-500" />
+              Show grid and margins
+            </label>
+            <label className="flex items-center">
+              <input type="checkbox" checked={settings.showRulers} onChange={(e) => update({ showRulers: e.target.checked })} className="mr-2 accent-indigo-500" />
+              <Ruler className="w-3.5 h-3.5 mr-1.5 text-zinc-500" />
+              Show rulers
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className="text-xs text-zinc-500 mb-1 block">Grid (px)</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={settings.gridSize}
+                  onChange={(e) => update({ gridSize: Math.max(0, Number(e.target.value)) })}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+                />
+              </div>
+              <div>
+                <span className="text-xs text-zinc-500 mb-1 block">Margin (px)</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={settings.margin}
+                  onChange={(e) => update({ margin: Math.max(0, Number(e.target.value)) })}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-zinc-500">Moves snap to the grid while it is shown; 0 turns that off. Guides are never exported.</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GuidesMenu;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { History as HistoryIcon } from 'lucide-react';
+import { HistoryEntry } from '../history.ts';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<unknown>[];
+  index: number;
+  onJump: (index: number) => void;
+}
+
+// Newest step on top; steps after the current one stay listed until a new edit replaces them
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, onJump }) => {
+  return (
+    <div className="p-2 space-y-1">
+      {[...entries].reverse().map((entry, reverseIndex) => {
+        const realIndex = entries.length - 1 - reverseIndex;
+        return (
+          <button
+            key={`${realIndex}-${entry.time}`}
+            onClick={() => onJump(realIndex)}
+            className={`w-full flex items-center p-2 rounded border text-left ${
+              realIndex === index
+                ? 'bg-zinc-800 border-indigo-500/50 text-zinc-200'
+                : realIndex > index
+                  ? 'border-transparent text-zinc-600 hover:bg-zinc-800'
+                  : 'border-transparent text-zinc-300 hover:bg-zinc-800 hover:border-zinc-700'
+            }`}
+          >
+            <HistoryIcon className="w-4 h-4 mr-2 shrink-0 text-zinc-500" />
+            <span className="flex-1 min-w-0 text-sm truncate">{entry.label}</span>
+            <span className="ml-2 text-[10px] font-mono text-zinc-500">{new Date(entry.time).toLocaleTimeString()}</span>
+          </button>
+        );
+      })}
+      <p className="text-[10px] text-zinc-600 text-center pt-2">Ctrl+Z to undo, Ctrl+Shift+Z to redo</p>
+    </div>
+  );
+};
+
+export default HistoryPanel;
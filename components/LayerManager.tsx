@@ -1,32 +1,129 @@
-import React, { useState } from 'react';
-import { Layer, LayerType } from '../types.ts';
-import { GripVertical, Type, Image as ImageIcon, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
-import { parseChatlog } from '../utils.ts';
+import React, { useState, useEffect } from 'react';
+import { Layer, LayerType, AnonymizerSettings, ChatFormatProfile, ChatFilterSet, ChatlogEntry, ChatlogParseOptions, ParsedChatLine } from '../types.ts';
+import { GripVertical, Type, Image as ImageIcon, ArrowUp, ArrowDown, Trash2, FileText, MessageSquare, Files } from 'lucide-react';
+import { parseChatlog, splitChatlog, previewChatFilters, paginateChatLines, createTextMeasurer, getFontString, CHAT_LINE_DEFAULTS } from '../utils.ts';
+import { BUILT_IN_PROFILES, loadCustomProfiles, saveCustomProfiles, loadActiveProfileId, saveActiveProfileId } from '../chatProfiles.ts';
+import { loadFilterSets, saveFilterSets, loadActiveFilterSetId, saveActiveFilterSetId } from '../chatFilters.ts';
+import ChatProfileEditor from './ChatProfileEditor.tsx';
+import ChatFilterEditor from './ChatFilterEditor.tsx';
+import AnonymizerPanel from './AnonymizerPanel.tsx';
+import ChatlogImportDialog from './ChatlogImportDialog.tsx';
+import ChatlogMergeDialog from './ChatlogMergeDialog.tsx';
+import HistoryPanel from './HistoryPanel.tsx';
+import { ChatlogSource } from '../chatMerge.ts';
+import { HistoryEntry } from '../history.ts';
 
 interface LayerManagerProps {
   layers: Layer[];
-  selectedId: string | null;
-  onSelect: (id: string) => void;
+  selectedIds: string[];
+  onSelect: (id: string, additive: boolean) => void; // additive: Shift/Ctrl-click toggles the layer
   onAddText: (text: string, color?: string, yOffset?: number) => void;
   onReorder: (fromIndex: number, toIndex: number) => void;
   onDelete: (id: string) => void;
-  onBulkAddText: (layers: any[]) => void;
+  onBulkAddText: (layers: ParsedChatLine[], asBlock: boolean) => void;
+  onAddChatPages: (pages: ParsedChatLine[][], asBlock: boolean) => void;
+  canvasWidth: number;
+  anonymizer: AnonymizerSettings;
+  onAnonymizerChange: (settings: AnonymizerSettings) => void;
+  onScanNames: () => void;
+  onApplyAnonymizer: () => void;
+  history: HistoryEntry<unknown>[];
+  historyIndex: number;
+  onJumpHistory: (index: number) => void;
 }
 
 const LayerManager: React.FC<LayerManagerProps> = ({ 
-    layers, selectedId, onSelect, onAddText, onReorder, onDelete, onBulkAddText
+    layers, selectedIds, onSelect, onAddText, onReorder, onDelete, onBulkAddText, onAddChatPages, canvasWidth,
+    anonymizer, onAnonymizerChange, onScanNames, onApplyAnonymizer, history, historyIndex, onJumpHistory
 }) => {
-  const [activeTab, setActiveTab] = useState<'layers' | 'chatlog'>('chatlog');
+  const [activeTab, setActiveTab] = useState<'layers' | 'chatlog' | 'history'>('chatlog');
   const [chatInput, setChatInput] = useState('');
+  const [profiles, setProfiles] = useState<ChatFormatProfile[]>(() => [...BUILT_IN_PROFILES, ...loadCustomProfiles()]);
+  const [activeProfileId, setActiveProfileId] = useState(loadActiveProfileId);
+  const [showProfileEditor, setShowProfileEditor] = useState(false);
+  const [proximityFade, setProximityFade] = useState(true);
+  const [addAsBlock, setAddAsBlock] = useState(true);
+  const [pageSize, setPageSize] = useState(0); // 0 = everything on one page
+  const [wrapEnabled, setWrapEnabled] = useState(false);
+  const [chatboxWidth, setChatboxWidth] = useState(0); // 0 = follow canvas width
+  const [filterSets, setFilterSets] = useState<ChatFilterSet[]>(loadFilterSets);
+  const [activeFilterSetId, setActiveFilterSetId] = useState(loadActiveFilterSetId);
+  const [showFilterPreview, setShowFilterPreview] = useState(false);
+  const [importFile, setImportFile] = useState<{ name: string; entries: ChatlogEntry[] } | null>(null);
+  const [mergeSources, setMergeSources] = useState<ChatlogSource[] | null>(null);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId) || BUILT_IN_PROFILES[0];
+  const activeFilters = filterSets.find(s => s.id === activeFilterSetId)?.rules || [];
+
+  useEffect(() => { saveCustomProfiles(profiles); }, [profiles]);
+  useEffect(() => { saveActiveProfileId(activeProfileId); }, [activeProfileId]);
+  useEffect(() => { saveFilterSets(filterSets); }, [filterSets]);
+  useEffect(() => { saveActiveFilterSetId(activeFilterSetId); }, [activeFilterSetId]);
+
+  const getParseOptions = (): ChatlogParseOptions => {
+    const maxWidth = chatboxWidth > 0 ? chatboxWidth : canvasWidth - CHAT_LINE_DEFAULTS.x * 2;
+    return {
+      profile: activeProfile,
+      filters: activeFilters,
+      proximityFade,
+      wrap: wrapEnabled ? { maxWidth, measure: createTextMeasurer(getFontString(CHAT_LINE_DEFAULTS)) } : undefined,
+    };
+  };
+
+  const addParsedLines = (parsed: ParsedChatLine[]) => {
+    if (pageSize > 0 && parsed.length > pageSize) {
+      onAddChatPages(paginateChatLines(parsed, pageSize), addAsBlock);
+    } else {
+      onBulkAddText(parsed, addAsBlock);
+    }
+  };
 
   const handleChatParse = () => {
     if(!chatInput.trim()) return;
-    const parsed = parseChatlog(chatInput);
-    onBulkAddText(parsed);
+    addParsedLines(parseChatlog(chatInput, getParseOptions()));
     setChatInput('');
     setActiveTab('layers');
   };
 
+  const handleChatlogFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      setImportFile({ name: file.name, entries: splitChatlog(event.target?.result as string) });
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleImport = (entries: ChatlogEntry[]) => {
+    addParsedLines(parseChatlog(entries, getParseOptions()));
+    setImportFile(null);
+    setMergeSources(null);
+    setActiveTab('layers');
+  };
+
+  // One log per player; the dialog lines them up by timestamp
+  const handleMergeFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length < 2) {
+      alert('Select at least two chatlogs to merge.');
+      return;
+    }
+    const sources = await Promise.all(files.map(async file => {
+      try {
+        return { name: file.name, entries: splitChatlog(await file.text()) };
+      } catch (err) {
+        throw new Error(`${file.name} could not be read${err instanceof Error ? `: ${err.message}` : '.'}`);
+      }
+    })).catch(err => {
+      alert(err instanceof Error ? err.message : String(err));
+      return null;
+    });
+    if (sources) setMergeSources(sources);
+  };
+
   const moveLayer = (index: number, direction: -1 | 1) => {
     const newIndex = index + direction;
     if (newIndex >= 0 && newIndex < layers.length) {
@@ -35,7 +132,7 @@ const LayerManager: React.FC<LayerManagerProps> = ({
   };
 
   return (
-    <div className="w-72 bg-zinc-900 border-r border-zinc-800 flex flex-col h-full">
+    <aside className="w-72 bg-zinc-900 border-r border-zinc-800 flex flex-col h-full">
       <div className="flex border-b border-zinc-800">
         <button
           onClick={() => setActiveTab('layers')}
@@ -47,7 +144,13 @@ const LayerManager: React.FC<LayerManagerProps> = ({
           onClick={() => setActiveTab('chatlog')}
           className={`flex-1 py-3 text-sm font-medium ${activeTab === 'chatlog' ? 'text-indigo-400 border-b-2 border-indigo-500' : 'text-zinc-400 hover:text-zinc-200'}`}
         >
-          Add Chatlog
+          Chatlog Tools
+        </button>
+        <button
+          onClick={() => setActiveTab('history')}
+          className={`flex-1 py-3 text-sm font-medium ${activeTab === 'history' ? 'text-indigo-400 border-b-2 border-indigo-500' : 'text-zinc-400 hover:text-zinc-200'}`}
+        >
+          History
         </button>
       </div>
 
@@ -63,9 +166,9 @@ const LayerManager: React.FC<LayerManagerProps> = ({
               return (
                 <div
                   key={layer.id}
-                  onClick={() => onSelect(layer.id)}
+                  onClick={(e) => onSelect(layer.id, e.shiftKey || e.ctrlKey || e.metaKey)}
                   className={`group flex items-center p-2 rounded cursor-pointer border ${
-                    selectedId === layer.id 
+                    selectedIds.includes(layer.id)
                       ? 'bg-zinc-800 border-indigo-500/50' 
                       : 'border-transparent hover:bg-zinc-800 hover:border-zinc-700'
                   }`}
@@ -74,7 +177,7 @@ const LayerManager: React.FC<LayerManagerProps> = ({
                     <GripVertical className="w-4 h-4" />
                   </div>
                   <div className="mr-2 text-zinc-400">
-                    {layer.type === LayerType.TEXT ? <Type className="w-4 h-4" /> : <ImageIcon className="w-4 h-4" />}
+                    {layer.type === LayerType.TEXT ? <Type className="w-4 h-4" /> : layer.type === LayerType.CHAT_BLOCK ? <MessageSquare className="w-4 h-4" /> : <ImageIcon className="w-4 h-4" />}
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="text-sm text-zinc-200 truncate font-medium">
@@ -93,17 +196,94 @@ const LayerManager: React.FC<LayerManagerProps> = ({
               );
             })}
           </div>
+        ) : activeTab === 'history' ? (
+          <HistoryPanel entries={history} index={historyIndex} onJump={onJumpHistory} />
         ) : (
           <div className="p-4 flex flex-col h-full">
-            <p className="text-xs text-zinc-400 mb-2">Paste your GTA chatlog here. The app will automatically detect /me (purple) and talk (white).</p>
+            <div className="mb-4 border-b border-zinc-800 pb-4">
+                <div className="flex items-center justify-between mb-2">
+                    <p className="text-xs text-zinc-500 font-bold">SERVER FORMAT</p>
+                    <button onClick={() => setShowProfileEditor(v => !v)} className="text-[10px] text-indigo-400 hover:text-indigo-300">
+                        {showProfileEditor ? 'Hide Rules' : 'Edit Rules'}
+                    </button>
+                </div>
+                {showProfileEditor ? (
+                    <ChatProfileEditor profiles={profiles} activeId={activeProfile.id} onSelect={setActiveProfileId} onChange={setProfiles} />
+                ) : (
+                    <select
+                      value={activeProfile.id}
+                      onChange={(e) => setActiveProfileId(e.target.value)}
+                      className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+                    >
+                      {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                )}
+            </div>
+            <div className="mb-4 border-b border-zinc-800 pb-4">
+                <p className="text-xs text-zinc-500 font-bold mb-2">FILTER RULES</p>
+                <ChatFilterEditor sets={filterSets} activeId={activeFilterSetId} onSelect={setActiveFilterSetId} onChange={setFilterSets} />
+            </div>
+            <div className="mb-4 border-b border-zinc-800 pb-4 space-y-2">
+                <label className="flex items-center text-xs text-zinc-300 cursor-pointer">
+                    <input type="checkbox" checked={addAsBlock} onChange={(e) => setAddAsBlock(e.target.checked)} className="mr-2 accent-indigo-500" />
+                    Add as one chat block
+                </label>
+                <div className="flex items-center justify-between">
+                    <span className="text-xs text-zinc-300">Lines per page</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={pageSize || ''}
+                      placeholder="All"
+                      onChange={(e) => setPageSize(Math.max(0, Math.floor(Number(e.target.value))))}
+                      className="w-20 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200 text-right"
+                    />
+                </div>
+                <label className="flex items-center text-xs text-zinc-300 cursor-pointer">
+                    <input type="checkbox" checked={proximityFade} onChange={(e) => setProximityFade(e.target.checked)} className="mr-2 accent-indigo-500" />
+                    Talk-range fade for speech (low, whispers)
+                </label>
+                <label className="flex items-center text-xs text-zinc-300 cursor-pointer">
+                    <input type="checkbox" checked={wrapEnabled} onChange={(e) => setWrapEnabled(e.target.checked)} className="mr-2 accent-indigo-500" />
+                    Wrap long lines (in-game style)
+                </label>
+                {wrapEnabled && (
+                    <div className="flex items-center justify-between">
+                        <span className="text-xs text-zinc-500">Chatbox width (px)</span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={chatboxWidth || ''}
+                          placeholder={String(canvasWidth - CHAT_LINE_DEFAULTS.x * 2)}
+                          onChange={(e) => setChatboxWidth(Math.max(0, Number(e.target.value)))}
+                          className="w-20 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200 text-right"
+                        />
+                    </div>
+                )}
+            </div>
+            <p className="text-xs text-zinc-400 mb-2">Paste your chatlog here. Lines are colored using the selected server format.</p>
             <textarea
-              className="flex-1 bg-zinc-800 border border-zinc-700 rounded p-3 text-xs font-mono text-zinc-300 focus:outline-none focus:border-indigo-500 resize-none mb-4"
+              className="flex-1 min-h-[120px] bg-zinc-800 border border-zinc-700 rounded p-3 text-xs font-mono text-zinc-300 focus:outline-none focus:border-indigo-500 resize-none mb-4"
               placeholder={`* Mask_1234 reaches for his waistband.
 Stranger 9901 says: Hey, watch it!
 (( Use standard format for auto-colors ))`}
               value={chatInput}
               onChange={(e) => setChatInput(e.target.value)}
             />
+            {activeFilters.length > 0 && chatInput.trim() && (
+                <div className="mb-4">
+                    <button onClick={() => setShowFilterPreview(v => !v)} className="text-[10px] text-indigo-400 hover:text-indigo-300 mb-1">
+                        {showFilterPreview ? 'Hide Filter Preview' : 'Show Filter Preview'}
+                    </button>
+                    {showFilterPreview && (
+                        <div className="max-h-40 overflow-y-auto bg-zinc-950 border border-zinc-800 rounded p-2 font-mono text-[10px] space-y-0.5">
+                            {previewChatFilters(chatInput, activeProfile, activeFilters).map(({ entry, kept }) => (
+                                <p key={entry.index} className={`truncate ${kept ? 'text-zinc-300' : 'text-red-400/70 line-through'}`}>{entry.text}</p>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
             <button
               onClick={handleChatParse}
               disabled={!chatInput.trim()}
@@ -111,6 +291,20 @@ Stranger 9901 says: Hey, watch it!
             >
               Process & Add to Canvas
             </button>
+            <label className="mt-2 w-full flex items-center justify-center py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-sm rounded border border-zinc-700 cursor-pointer">
+              <FileText className="w-4 h-4 mr-2" />
+              Import chatlog.txt
+              <input type="file" accept=".txt,.log,text/plain" onChange={handleChatlogFile} className="hidden" />
+            </label>
+            <label className="mt-2 w-full flex items-center justify-center py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-sm rounded border border-zinc-700 cursor-pointer">
+              <Files className="w-4 h-4 mr-2" />
+              Merge logs from several players
+              <input type="file" multiple accept=".txt,.log,text/plain" onChange={handleMergeFiles} className="hidden" />
+            </label>
+            <div className="mt-4 border-t border-zinc-800 pt-4">
+                <p className="text-xs text-zinc-500 font-bold mb-2">ANONYMIZE NAMES</p>
+                <AnonymizerPanel settings={anonymizer} onChange={onAnonymizerChange} onScan={onScanNames} onApply={onApplyAnonymizer} />
+            </div>
             <div className="mt-4 border-t border-zinc-800 pt-4">
                 <p className="text-xs text-zinc-500 font-bold mb-2">QUICK ADD SINGLE LINE</p>
                 <div className="grid grid-cols-2 gap-2">
@@ -131,7 +325,25 @@ Stranger 9901 says: Hey, watch it!
           </div>
         )}
       </div>
-    </div>
+
+      {importFile && (
+        <ChatlogImportDialog
+          fileName={importFile.name}
+          entries={importFile.entries}
+          removedIndexes={new Set(previewChatFilters(importFile.entries, activeProfile, activeFilters).filter(p => !p.kept).map(p => p.entry.index))}
+          onCancel={() => setImportFile(null)}
+          onImport={handleImport}
+        />
+      )}
+
+      {mergeSources && (
+        <ChatlogMergeDialog
+          sources={mergeSources}
+          onCancel={() => setMergeSources(null)}
+          onImport={handleImport}
+        />
+      )}
+    </aside>
   );
 };
 
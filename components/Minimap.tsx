@@ -0,0 +1,58 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { Layer, Position, Rect, Size } from '../types.ts';
+import { drawScene } from '../renderer.ts';
+
+interface MinimapProps {
+  layers: Layer[];
+  images: Record<string, HTMLImageElement>;
+  size: Size;
+  visible: Rect; // The part of the canvas in view, canvas units
+  onNavigate: (center: Position) => void;
+}
+
+const MAX_WIDTH = 180;
+const MAX_HEIGHT = 120;
+
+// Whole-page thumbnail with the visible area outlined. Clicking or dragging moves the view.
+const Minimap: React.FC<MinimapProps> = ({ layers, images, size, visible, onNavigate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const scale = Math.min(MAX_WIDTH / size.width, MAX_HEIGHT / size.height);
+  const width = Math.round(size.width * scale);
+  const height = Math.round(size.height * scale);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    drawScene(ctx, layers, images, size, { scale });
+
+    ctx.strokeStyle = '#6366f1';
+    ctx.fillStyle = 'rgba(99, 102, 241, 0.15)';
+    ctx.lineWidth = 1.5 / scale;
+    ctx.fillRect(visible.x, visible.y, visible.width, visible.height);
+    ctx.strokeRect(visible.x, visible.y, visible.width, visible.height);
+  }, [layers, images, size, visible, scale]);
+
+  const navigate = (e: React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    onNavigate({ x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale });
+  };
+
+  return (
+    <div className="absolute bottom-4 right-4 p-1 bg-zinc-900/90 border border-zinc-700 rounded shadow-2xl">
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        style={{ width, height }}
+        className="block cursor-pointer"
+        onMouseDown={(e) => { setDragging(true); navigate(e); }}
+        onMouseMove={(e) => dragging && navigate(e)}
+        onMouseUp={() => setDragging(false)}
+        onMouseLeave={() => setDragging(false)}
+      />
+    </div>
+  );
+};
+
+export default Minimap;
@@ -0,0 +1,169 @@
+import React from 'react';
+import { Trash2, Copy, Layers, Eye, EyeOff, Lock, Unlock } from 'lucide-react';
+import { Layer, LayerType, TextLayer, ChatBlockLayer, PRESET_COLORS } from '../types.ts';
+import { AlignMode, DistributeAxis } from '../alignment.ts';
+import AlignTools from './AlignTools.tsx';
+
+interface MultiLayerPropertiesProps {
+  layers: Layer[];
+  onChange: (updates: Partial<Layer>) => void; // Fields a layer doesn't have are skipped for it
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+}
+
+// The value every layer agrees on, or undefined when they differ
+const shared = <T,>(values: T[]): T | undefined => values.every(v => v === values[0]) ? values[0] : undefined;
+
+const MultiLayerProperties: React.FC<MultiLayerPropertiesProps> = ({ layers, onChange, onDelete, onDuplicate, onAlign, onDistribute }) => {
+  const styled = layers.filter((l): l is TextLayer | ChatBlockLayer => l.type !== LayerType.IMAGE);
+  const texts = layers.filter((l): l is TextLayer => l.type === LayerType.TEXT);
+  const anyVisible = layers.some(l => l.visible);
+  const allLocked = layers.every(l => l.locked);
+  const unlocked = layers.filter(l => !l.locked).length; // Align and distribute skip locked layers
+
+  const color = shared(texts.map(l => l.color));
+  const fontSize = shared(styled.map(l => l.fontSize));
+  const strokeColor = shared(styled.map(l => l.strokeColor));
+  const strokeWidth = shared(styled.map(l => l.strokeWidth));
+  const allBold = styled.length > 0 && styled.every(l => l.isBold);
+  const allItalic = styled.length > 0 && styled.every(l => l.isItalic);
+
+  return (
+    <div className="w-80 bg-zinc-900 border-l border-zinc-800 flex flex-col h-full overflow-y-auto">
+      <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+        <h3 className="font-semibold text-zinc-200 flex items-center">
+            <Layers className="w-4 h-4 mr-2 text-indigo-400"/>
+            {layers.length} Layers
+        </h3>
+        <div className="flex space-x-1">
+            <button onClick={() => onChange({ visible: !anyVisible })} title={anyVisible ? 'Hide all' : 'Show all'} className="p-1.5 text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 rounded">
+                {anyVisible ? <Eye className="w-4 h-4"/> : <EyeOff className="w-4 h-4"/>}
+            </button>
+            <button onClick={() => onChange({ locked: !allLocked })} title={allLocked ? 'Unlock all' : 'Lock all'} className="p-1.5 text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 rounded">
+                {allLocked ? <Lock className="w-4 h-4"/> : <Unlock className="w-4 h-4"/>}
+            </button>
+            <button onClick={onDuplicate} className="p-1.5 text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 rounded">
+                <Copy className="w-4 h-4"/>
+            </button>
+            <button onClick={onDelete} className="p-1.5 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded">
+                <Trash2 className="w-4 h-4"/>
+            </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {unlocked > 0 && <AlignTools count={unlocked} onAlign={onAlign} onDistribute={onDistribute} />}
+
+        {styled.length === 0 && (
+            <p className="text-xs text-zinc-500">The selected layers have no shared text settings.</p>
+        )}
+
+        {styled.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-zinc-400 uppercase">Typography</label>
+            <div>
+                <span className="text-xs text-zinc-500 mb-1 block">Size (px)</span>
+                <input
+                    type="number"
+                    value={fontSize ?? ''}
+                    placeholder="Mixed"
+                    onChange={(e) => e.target.value !== '' && onChange({ fontSize: Number(e.target.value) })}
+                    className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+                />
+            </div>
+            <div className="flex items-center space-x-2 pt-2">
+                <button
+                  onClick={() => onChange({ isBold: !allBold })}
+                  className={`flex-1 py-1 text-sm rounded border ${ allBold ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400' }`}
+                >
+                    Bold
+                </button>
+                <button
+                  onClick={() => onChange({ isItalic: !allItalic })}
+                  className={`flex-1 py-1 text-sm rounded border ${ allItalic ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400' }`}
+                >
+                    Italic
+                </button>
+            </div>
+          </div>
+        )}
+
+        {styled.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-zinc-400 uppercase">Colors</label>
+
+            {texts.length > 0 && (
+              <>
+                <div className="flex flex-wrap gap-2 mb-2">
+                    {PRESET_COLORS.map(c => (
+                        <button
+                            key={c.name}
+                            onClick={() => onChange({ color: c.value, proximity: undefined })}
+                            title={c.name}
+                            className="w-6 h-6 rounded-full border border-zinc-600 focus:ring-2 ring-indigo-500"
+                            style={{ backgroundColor: c.value }}
+                        />
+                    ))}
+                </div>
+                {texts.length < layers.length && (
+                    <p className="text-[10px] text-zinc-500">Text color applies to the {texts.length} text layer{texts.length === 1 ? '' : 's'} only.</p>
+                )}
+              </>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+                {texts.length > 0 && (
+                  <div>
+                      <span className="text-xs text-zinc-500 mb-1 block">Text Color</span>
+                      <div className="flex items-center space-x-2">
+                          <input
+                              type="color"
+                              value={color ?? '#ffffff'}
+                              onChange={(e) => onChange({ color: e.target.value, proximity: undefined })}
+                              className="h-8 w-8 rounded bg-transparent cursor-pointer"
+                          />
+                          <span className="text-xs text-zinc-400 font-mono">{color ?? 'Mixed'}</span>
+                      </div>
+                  </div>
+                )}
+                <div>
+                    <span className="text-xs text-zinc-500 mb-1 block">Stroke Color</span>
+                    <div className="flex items-center space-x-2">
+                        <input
+                            type="color"
+                            value={strokeColor ?? '#000000'}
+                            onChange={(e) => onChange({ strokeColor: e.target.value })}
+                            className="h-8 w-8 rounded bg-transparent cursor-pointer"
+                        />
+                        <span className="text-xs text-zinc-400 font-mono">{strokeColor ?? 'Mixed'}</span>
+                    </div>
+                </div>
+            </div>
+
+            <div>
+                <div className="flex justify-between text-xs text-zinc-500 mb-1">
+                    <span>Stroke Width</span>
+                    <span>{strokeWidth !== undefined ? `${strokeWidth}px` : 'Mixed'}</span>
+                </div>
+                <input
+                    type="range"
+                    min="0"
+                    max="10"
+                    step="0.5"
+                    value={strokeWidth ?? 0}
+                    onChange={(e) => onChange({ strokeWidth: Number(e.target.value) })}
+                    className="w-full h-2 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                />
+            </div>
+          </div>
+        )}
+
+        <p className="text-[10px] text-zinc-500 pt-4 border-t border-zinc-800">Drag any selected layer on the canvas to move them together. Shift or Ctrl-click to add or remove layers.</p>
+      </div>
+    </div>
+  );
+};
+
+export default MultiLayerProperties;
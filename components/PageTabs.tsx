@@ -0,0 +1,47 @@
+import React from 'react';
+import { Plus, X, ImagePlus } from 'lucide-react';
+import { Composition } from '../types.ts';
+
+interface PageTabsProps {
+  compositions: Composition[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onDelete: (id: string) => void;
+  onReplaceBase: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+const PageTabs: React.FC<PageTabsProps> = ({ compositions, activeId, onSelect, onAdd, onDelete, onReplaceBase }) => {
+  return (
+    <div className="h-9 bg-zinc-900 border-b border-zinc-800 flex items-center px-2 space-x-1 shrink-0 overflow-x-auto">
+      {compositions.map(c => (
+        <div
+          key={c.id}
+          onClick={() => onSelect(c.id)}
+          className={`group flex items-center px-3 py-1 rounded text-xs cursor-pointer whitespace-nowrap ${c.id === activeId ? 'bg-zinc-800 text-indigo-300' : 'text-zinc-400 hover:bg-zinc-800/60 hover:text-zinc-200'}`}
+        >
+          {c.name}
+          {compositions.length > 1 && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onDelete(c.id); }}
+              className="ml-2 text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+      <button onClick={onAdd} title="Add page" className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-800 rounded">
+        <Plus className="w-3.5 h-3.5" />
+      </button>
+      <div className="flex-1" />
+      <label title="Use a different base image for this page" className="flex items-center px-2 py-1 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 rounded cursor-pointer whitespace-nowrap">
+        <ImagePlus className="w-3.5 h-3.5 mr-1" />
+        Page Base
+        <input type="file" accept="image/*" onChange={onReplaceBase} className="hidden" />
+      </label>
+    </div>
+  );
+};
+
+export default PageTabs;
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Copy, Trash2, AlertTriangle, Image as ImageIcon } from 'lucide-react';
+import { StoredProjectInfo, listProjects, renameProject, duplicateProject, deleteProject } from '../projectStore.ts';
+import { generateId } from '../utils.ts';
+
+interface ProjectBrowserProps {
+  currentId: string;
+  crashedId: string | null; // Project of a session that didn't close cleanly
+  onOpen: (id: string) => void;
+  onRenamed: (id: string, name: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+const Thumbnail: React.FC<{ blob: Blob | null }> = ({ blob }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url
+    ? <img src={url} alt="" className="w-full h-full object-cover" />
+    : <ImageIcon className="w-6 h-6 text-zinc-700" />;
+};
+
+const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ currentId, crashedId, onOpen, onRenamed, onNew, onClose }) => {
+  const [projects, setProjects] = useState<StoredProjectInfo[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const errorMessage = (err: unknown, fallback: string) => err instanceof Error ? err.message : fallback;
+
+  const refresh = () => {
+    listProjects()
+      .then(list => { setProjects(list); setLoadError(null); })
+      .catch(err => setLoadError(errorMessage(err, 'Saved projects could not be read.')));
+  };
+
+  useEffect(refresh, []);
+
+  const crashed = projects.find(p => p.id === crashedId);
+
+  const commitRename = async () => {
+    if (editingId && editName.trim()) {
+      try {
+        await renameProject(editingId, editName.trim());
+        onRenamed(editingId, editName.trim());
+      } catch (err) {
+        alert(errorMessage(err, 'The project could not be renamed.'));
+      }
+    }
+    setEditingId(null);
+    refresh();
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateProject(id, generateId());
+    } catch (err) {
+      alert(errorMessage(err, 'The project could not be duplicated.'));
+    }
+    refresh();
+  };
+
+  const handleDelete = async (project: StoredProjectInfo) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+    } catch (err) {
+      alert(errorMessage(err, 'The project could not be deleted.'));
+    }
+    refresh();
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-8">
+      <div className="w-full max-w-3xl max-h-full bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <h3 className="font-semibold text-zinc-200">Projects</h3>
+          <div className="flex items-center space-x-2">
+            <button onClick={onNew} className="flex items-center px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold rounded shadow">
+              <Plus className="w-4 h-4 mr-1" /> New Project
+            </button>
+            <button onClick={onClose} className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {crashed && (
+          <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between bg-amber-900/20">
+            <span className="flex items-center text-sm text-amber-300">
+              <AlertTriangle className="w-4 h-4 mr-2 shrink-0" />
+              The last session on "{crashed.name}" did not close properly.
+            </span>
+            <button onClick={() => onOpen(crashed.id)} className="px-3 py-1 bg-amber-600 hover:bg-amber-500 text-white text-xs font-semibold rounded">
+              Recover
+            </button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto min-h-0 p-4">
+          {loadError && (
+            <p className="flex items-center justify-center text-sm text-red-400 py-12">
+              <AlertTriangle className="w-4 h-4 mr-2 shrink-0" />
+              Saved projects are unavailable: {loadError}
+            </p>
+          )}
+          {!loadError && projects.length === 0 && (
+            <p className="text-center text-sm text-zinc-500 py-12">No saved projects yet. Changes are saved automatically as you work.</p>
+          )}
+          <div className="grid grid-cols-3 gap-3">
+            {projects.map(project => (
+              <div
+                key={project.id}
+                className={`group rounded border overflow-hidden bg-zinc-800/60 ${project.id === currentId ? 'border-indigo-500' : 'border-zinc-700 hover:border-zinc-500'}`}
+              >
+                <button onClick={() => onOpen(project.id)} className="w-full aspect-video bg-black flex items-center justify-center">
+                  <Thumbnail blob={project.thumbnail} />
+                </button>
+                <div className="p-2 flex items-center gap-1">
+                  <div className="flex-1 min-w-0">
+                    {editingId === project.id ? (
+                      <input
+                        autoFocus
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="w-full bg-zinc-900 border border-zinc-700 rounded px-1 text-xs text-zinc-200"
+                      />
+                    ) : (
+                      <p
+                        onDoubleClick={() => { setEditingId(project.id); setEditName(project.name); }}
+                        title="Double-click to rename"
+                        className="text-xs text-zinc-200 truncate cursor-text"
+                      >
+                        {project.name}
+                      </p>
+                    )}
+                    <p className="text-[10px] text-zinc-500">{new Date(project.updatedAt).toLocaleString()}</p>
+                  </div>
+                  <button onClick={() => handleDuplicate(project.id)} title="Duplicate" className="p-1 text-zinc-500 hover:text-white opacity-0 group-hover:opacity-100">
+                    <Copy className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(project)}
+                    disabled={project.id === currentId}
+                    title={project.id === currentId ? 'Open project cannot be deleted' : 'Delete'}
+                    className="p-1 text-red-400 hover:text-red-300 opacity-0 group-hover:opacity-100 disabled:opacity-0"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectBrowser;
@@ -1,15 +1,27 @@
 import React from 'react';
-import { Layer, LayerType, TextLayer, ImageLayer, PRESET_COLORS } from '../types.ts';
-import { Trash2, Copy, Move, Type, Image as ImageIcon, Eye, EyeOff, Lock, Unlock } from 'lucide-react';
+import { Layer, LayerType, TextLayer, ImageLayer, ChatBlockLayer, PRESET_COLORS, PROXIMITY_FADE_COLORS } from '../types.ts';
+import { hasColorCodes, parseColorCodes, runsToPlainText, runsToColorCodes, getProximityColor } from '../utils.ts';
+import { Trash2, Copy, Move, Type, Image as ImageIcon, Eye, EyeOff, Lock, Unlock, MessageSquare } from 'lucide-react';
+import ChatBlockProperties from './ChatBlockProperties.tsx';
+import MultiLayerProperties from './MultiLayerProperties.tsx';
+import AlignTools from './AlignTools.tsx';
+import { AlignMode, DistributeAxis } from '../alignment.ts';
 
 interface PropertiesPanelProps {
-  layer: Layer | null;
+  layers: Layer[]; // The selection; edits apply to all of them
   onChange: (updates: Partial<Layer>) => void;
   onDelete: () => void;
   onDuplicate: () => void;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
 }
 
-const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ layer, onChange, onDelete, onDuplicate }) => {
+const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ layers, onChange, onDelete, onDuplicate, onAlign, onDistribute }) => {
+  if (layers.length > 1) {
+    return <MultiLayerProperties layers={layers} onChange={onChange} onDelete={onDelete} onDuplicate={onDuplicate} onAlign={onAlign} onDistribute={onDistribute} />;
+  }
+
+  const layer = layers[0];
   if (!layer) {
     return (
       <div className="w-80 bg-zinc-900 border-l border-zinc-800 p-6 flex flex-col items-center justify-center text-zinc-500">
@@ -21,11 +33,21 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ layer, onChange, onDe
     );
   }
 
+  // Content is edited with inline {RRGGBB} codes, which are split back into runs
+  const handleContentChange = (text: string) => {
+    if (hasColorCodes(text)) {
+      const runs = parseColorCodes(text);
+      onChange({ content: runsToPlainText(runs), runs });
+    } else {
+      onChange({ content: text, runs: undefined });
+    }
+  };
+
   return (
-    <div className="w-80 bg-zinc-900 border-l border-zinc-800 flex flex-col h-full overflow-y-auto">
+    <aside className="w-80 bg-zinc-900 border-l border-zinc-800 flex flex-col h-full overflow-y-auto">
       <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
         <h3 className="font-semibold text-zinc-200 flex items-center">
-            {layer.type === LayerType.TEXT ? <Type className="w-4 h-4 mr-2 text-blue-400"/> : <ImageIcon className="w-4 h-4 mr-2 text-green-400"/>}
+            {layer.type === LayerType.TEXT ? <Type className="w-4 h-4 mr-2 text-blue-400"/> : layer.type === LayerType.CHAT_BLOCK ? <MessageSquare className="w-4 h-4 mr-2 text-purple-400"/> : <ImageIcon className="w-4 h-4 mr-2 text-green-400"/>}
             Properties
         </h3>
         <div className="flex space-x-1">
@@ -51,10 +73,13 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ layer, onChange, onDe
             <div className="space-y-2">
               <label className="text-xs font-medium text-zinc-400 uppercase">Content</label>
               <textarea
-                value={(layer as TextLayer).content}
-                onChange={(e) => onChange({ content: e.target.value })}
+                value={(layer as TextLayer).runs ? runsToColorCodes((layer as TextLayer).runs!) : (layer as TextLayer).content}
+                onChange={(e) => handleContentChange(e.target.value)}
                 className="w-full bg-zinc-800 border border-zinc-700 rounded p-2 text-sm text-zinc-200 focus:outline-none focus:border-indigo-500 min-h-[80px]"
               />
+              {(layer as TextLayer).runs && (
+                <p className="text-[10px] text-zinc-500">Inline {'{RRGGBB}'} codes color the text that follows them.</p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -104,7 +129,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ layer, onChange, onDe
                     {PRESET_COLORS.map(c => (
                         <button
                             key={c.name}
-                            onClick={() => onChange({ color: c.value })}
+                            onClick={() => onChange({ color: c.value, proximity: undefined })}
                             title={c.name}
                             className="w-6 h-6 rounded-full border border-zinc-600 focus:ring-2 ring-indigo-500"
                             style={{ backgroundColor: c.value }}
@@ -112,6 +137,29 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ layer, onChange, onDe
                     ))}
                 </div>
 
+                <div>
+                    <span className="text-xs text-zinc-500 mb-1 block">Talk Range</span>
+                    <div className="flex gap-1">
+                        {PROXIMITY_FADE_COLORS.map((fade, i) => (
+                            <button
+                                key={fade}
+                                onClick={() => onChange({ proximity: i + 1, color: getProximityColor(i + 1) })}
+                                title={i === 0 ? 'Closest' : i === PROXIMITY_FADE_COLORS.length - 1 ? 'Furthest' : undefined}
+                                className={`flex-1 py-1 text-xs font-mono rounded border ${(layer as TextLayer).proximity === i + 1 ? 'border-indigo-500 ring-1 ring-indigo-500' : 'border-zinc-700'}`}
+                                style={{ backgroundColor: '#18181b', color: fade }}
+                            >
+                                {i + 1}
+                            </button>
+                        ))}
+                        <button
+                            onClick={() => onChange({ proximity: undefined })}
+                            className={`px-2 py-1 text-xs rounded border ${(layer as TextLayer).proximity ? 'border-zinc-700 text-zinc-500' : 'border-indigo-500 text-zinc-300'}`}
+                        >
+                            Off
+                        </button>
+                    </div>
+                </div>
+
                 <div className="grid grid-cols-2 gap-2">
                     <div>
                         <span className="text-xs text-zinc-500 mb-1 block">Text Color</span>
@@ -119,7 +167,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ layer, onChange, onDe
                             <input 
                                 type="color" 
                                 value={(layer as TextLayer).color}
-                                onChange={(e) => onChange({ color: e.target.value })}
+                                onChange={(e) => onChange({ color: e.target.value, proximity: undefined })}
                                 className="h-8 w-8 rounded bg-transparent cursor-pointer"
                             />
                             <span className="text-xs text-zinc-400 font-mono">{(layer as TextLayer).color}</span>
@@ -158,6 +206,11 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ layer, onChange, onDe
           </>
         )}
 
+        {/* CHAT BLOCK PROPERTIES */}
+        {layer.type === LayerType.CHAT_BLOCK && (
+          <ChatBlockProperties layer={layer as ChatBlockLayer} onChange={onChange} />
+        )}
+
         {/* IMAGE PROPERTIES */}
         {layer.type === LayerType.IMAGE && (
           <>
@@ -249,8 +302,10 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ layer, onChange, onDe
                  </div>
              </div>
         </div>
+
+        {!layer.locked && <AlignTools count={1} onAlign={onAlign} onDistribute={onDistribute} />}
       </div>
-    </div>
+    </aside>
   );
 };
 
@@ -0,0 +1,74 @@
+import React, { useRef, useEffect } from 'react';
+
+interface RulerProps {
+  orientation: 'horizontal' | 'vertical';
+  length: number; // Canvas units
+  zoom: number;
+  thickness: number; // Screen px
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Labelled steps in canvas units; the smallest that keeps labels at least this far apart wins
+const STEPS = [5, 10, 25, 50, 100, 250, 500, 1000];
+const MIN_LABEL_SPACING = 50; // screen px
+
+const Ruler: React.FC<RulerProps> = ({ orientation, length, zoom, thickness, className, style }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const horizontal = orientation === 'horizontal';
+  const size = length * zoom;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#27272a';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const step = STEPS.find(s => s * zoom >= MIN_LABEL_SPACING) ?? STEPS[STEPS.length - 1];
+    const minor = step / 5;
+    ctx.strokeStyle = '#71717a';
+    ctx.fillStyle = '#a1a1aa';
+    ctx.font = '9px sans-serif';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let i = 0; i * minor <= length; i++) {
+      const at = Math.round(i * minor * zoom) + 0.5;
+      const tick = i % 5 === 0 ? thickness : thickness / 3;
+      if (horizontal) {
+        ctx.moveTo(at, thickness);
+        ctx.lineTo(at, thickness - tick);
+      } else {
+        ctx.moveTo(thickness, at);
+        ctx.lineTo(thickness - tick, at);
+      }
+      if (i % 5 === 0) {
+        const label = String(i * minor);
+        if (horizontal) {
+          ctx.fillText(label, at + 2, 9);
+        } else {
+          ctx.save();
+          ctx.translate(9, at + 2);
+          ctx.rotate(Math.PI / 2);
+          ctx.fillText(label, 0, 0);
+          ctx.restore();
+        }
+      }
+    }
+    ctx.stroke();
+  }, [length, zoom, thickness, horizontal]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={horizontal ? size : thickness}
+      height={horizontal ? thickness : size}
+      className={`pointer-events-none ${className ?? ''}`}
+      style={{ ...style, width: horizontal ? size : thickness, height: horizontal ? thickness : size }}
+    />
+  );
+};
+
+export default Ruler;
@@ -0,0 +1,142 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Plus, RotateCcw } from 'lucide-react';
+import { Keymap, ShortcutAction, SHORTCUTS, FIXED_GESTURES, DEFAULT_KEYMAP, bindShortcut, eventToCombo, formatCombo } from '../keymap.ts';
+
+interface ShortcutsDialogProps {
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+const GROUPS = ['Edit', 'Selection', 'Arrange', 'View'] as const;
+
+const Keys: React.FC<{ combo: string }> = ({ combo }) => (
+  <kbd className="px-1.5 py-0.5 text-[11px] font-mono text-zinc-200 bg-zinc-800 border border-zinc-700 rounded">{formatCombo(combo)}</kbd>
+);
+
+// Cheat sheet of every binding, and a view to rebind them
+const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({ keymap, onChange, onClose }) => {
+  const [tab, setTab] = useState<'sheet' | 'customize'>('sheet');
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [notice, setNotice] = useState('');
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // Focused so key presses land here first
+  useEffect(() => { rootRef.current?.focus(); }, []);
+
+  const labelOf = (action: ShortcutAction) => SHORTCUTS.find(s => s.action === action)!.label;
+
+  // While recording, the next key press becomes the binding and never reaches the app's shortcuts
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (!recording) {
+      if (e.key === 'Escape') onClose();
+      return;
+    }
+    e.preventDefault();
+    if (e.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    const combo = eventToCombo(e.nativeEvent);
+    if (!combo) return;
+    const { keymap: next, takenFrom } = bindShortcut(keymap, recording, combo);
+    onChange(next);
+    setNotice(takenFrom ? `${formatCombo(combo)} was moved from "${labelOf(takenFrom)}".` : '');
+    setRecording(null);
+  };
+
+  const removeCombo = (action: ShortcutAction, combo: string) => {
+    onChange({ ...keymap, [action]: keymap[action].filter(c => c !== combo) });
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-8" onKeyDown={handleKeyDown} tabIndex={-1} ref={rootRef}>
+      <div className="w-full max-w-3xl max-h-full bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <h3 className="font-semibold text-zinc-200">Keyboard Shortcuts</h3>
+          <button onClick={onClose} className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex border-b border-zinc-800">
+          {(['sheet', 'customize'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => { setTab(t); setRecording(null); }}
+              className={`flex-1 py-2 text-sm font-medium ${tab === t ? 'text-indigo-400 border-b-2 border-indigo-500' : 'text-zinc-500 hover:text-zinc-300'}`}
+            >
+              {t === 'sheet' ? 'Cheat Sheet' : 'Customize'}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'sheet' && (
+          <div className="p-4 overflow-y-auto grid grid-cols-2 gap-6">
+            {GROUPS.map(group => (
+              <div key={group} className="space-y-1">
+                <h4 className="text-xs font-medium text-zinc-400 uppercase mb-2">{group}</h4>
+                {SHORTCUTS.filter(s => s.group === group).map(s => (
+                  <div key={s.action} className="flex items-center justify-between text-sm text-zinc-300 py-0.5">
+                    <span>{s.label}</span>
+                    <span className="flex space-x-1">
+                      {keymap[s.action].length > 0 ? keymap[s.action].map(c => <Keys key={c} combo={c} />) : <span className="text-xs text-zinc-600">Unbound</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+            <div className="space-y-1">
+              <h4 className="text-xs font-medium text-zinc-400 uppercase mb-2">Mouse</h4>
+              {FIXED_GESTURES.map(g => (
+                <div key={g.label + g.keys} className="flex items-center justify-between text-sm text-zinc-300 py-0.5">
+                  <span>{g.label}</span>
+                  <Keys combo={g.keys} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {tab === 'customize' && (
+          <div className="p-4 overflow-y-auto space-y-1">
+            {SHORTCUTS.map(s => (
+              <div key={s.action} className="flex items-center justify-between text-sm text-zinc-300 py-1 border-b border-zinc-800/60">
+                <span>{s.label}</span>
+                <div className="flex items-center space-x-1">
+                  {keymap[s.action].map(c => (
+                    <button key={c} onClick={() => removeCombo(s.action, c)} title="Remove binding" className="flex items-center group">
+                      <Keys combo={c} />
+                      <X className="w-3 h-3 ml-0.5 text-zinc-600 group-hover:text-red-400" />
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => setRecording(recording === s.action ? null : s.action)}
+                    className={`flex items-center px-2 py-0.5 text-xs rounded border ${recording === s.action ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:text-white'}`}
+                  >
+                    {recording === s.action ? 'Press keys…' : <Plus className="w-3 h-3" />}
+                  </button>
+                  <button onClick={() => onChange({ ...keymap, [s.action]: s.defaults })} title="Reset to default" className="p-1 text-zinc-500 hover:text-white">
+                    <RotateCcw className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="p-4 border-t border-zinc-800 flex items-center justify-between">
+          <p className="text-xs text-zinc-500">{notice || (tab === 'customize' ? 'Click + and press a key combination. Esc cancels.' : 'Shortcuts are off while typing in a text field.')}</p>
+          {tab === 'customize' && (
+            <button onClick={() => { onChange(DEFAULT_KEYMAP); setNotice(''); }} className="px-3 py-1.5 text-sm text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded">
+              Reset All
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsDialog;
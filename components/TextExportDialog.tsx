@@ -0,0 +1,87 @@
+import React, { useState, useMemo } from 'react';
+import { X, Copy, Check, Download } from 'lucide-react';
+import { Composition } from '../types.ts';
+import { downloadBlob } from '../utils.ts';
+import { TextExportFormat, layersToBBCode, layersToHtml } from '../textExport.ts';
+
+interface TextExportDialogProps {
+  composition: Composition;
+  onClose: () => void;
+}
+
+const TextExportDialog: React.FC<TextExportDialogProps> = ({ composition, onClose }) => {
+  const [format, setFormat] = useState<TextExportFormat>('bbcode');
+  const [withTimestamps, setWithTimestamps] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const output = useMemo(() => format === 'bbcode'
+    ? layersToBBCode(composition.layers, withTimestamps)
+    : layersToHtml(composition.layers, composition.name, withTimestamps),
+  [composition, format, withTimestamps]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(output);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      alert('Clipboard access was blocked. Select the text and copy it manually.');
+    }
+  };
+
+  const handleSave = () => {
+    const type = format === 'bbcode' ? 'text/plain' : 'text/html';
+    downloadBlob(new Blob([output], { type }), `ssrp-chatlog-${Date.now()}.${format === 'bbcode' ? 'txt' : 'html'}`);
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-8">
+      <div className="w-full max-w-3xl max-h-full bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <h3 className="font-semibold text-zinc-200">Forum Text Export</h3>
+          <button onClick={onClose} className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-zinc-800 flex items-center gap-4">
+          <div className="flex items-center space-x-2">
+            {(['bbcode', 'html'] as const).map(f => (
+              <button
+                key={f}
+                onClick={() => setFormat(f)}
+                className={`px-4 py-1 text-sm rounded border ${format === f ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}
+              >
+                {f === 'bbcode' ? 'BBCode' : 'HTML'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center text-sm text-zinc-300 cursor-pointer">
+            <input type="checkbox" checked={withTimestamps} onChange={(e) => setWithTimestamps(e.target.checked)} className="mr-2 accent-indigo-500" />
+            Include timestamps
+          </label>
+        </div>
+
+        <textarea
+          readOnly
+          value={output}
+          onFocus={(e) => e.target.select()}
+          className="flex-1 min-h-[300px] m-4 bg-zinc-950 border border-zinc-800 rounded p-3 text-xs font-mono text-zinc-300 resize-none focus:outline-none"
+        />
+
+        <div className="p-4 border-t border-zinc-800 flex items-center justify-end space-x-2">
+          <button onClick={handleSave} disabled={!output} className="flex items-center px-4 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-200 text-sm rounded border border-zinc-700">
+            <Download className="w-4 h-4 mr-2" />
+            Save File
+          </button>
+          <button onClick={handleCopy} disabled={!output} className="flex items-center px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-sm font-semibold rounded shadow">
+            {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+            {copied ? 'Copied' : 'Copy to Clipboard'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TextExportDialog;
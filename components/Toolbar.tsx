@@ -1,15 +1,36 @@
 import React from 'react';
-import { Download, ZoomIn, ZoomOut, Upload, FilePlus, Layers } from 'lucide-react';
+import { Download, ZoomIn, ZoomOut, Upload, FilePlus, Layers, Film, FileCode, Save, FolderOpen, LayoutGrid, Undo2, Redo2, Maximize, Focus, Keyboard, AlertTriangle } from 'lucide-react';
+import { GuideSettings } from '../types.ts';
+import { ViewFit } from '../viewport.ts';
+import GuidesMenu from './GuidesMenu.tsx';
 
 interface ToolbarProps {
   onZoomIn: () => void;
   onZoomOut: () => void;
   zoom: number;
+  onViewFit: (fit: ViewFit) => void;
+  hasSelection: boolean;
+  onShowShortcuts: () => void;
   onExport: () => void;
+  onExportAll: () => void;
+  onAnimate: () => void;
+  onExportText: () => void;
+  pageCount: number;
   onAddImage: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onSaveProject: () => void;
+  onOpenProject: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onShowProjects: () => void;
+  projectName: string;
+  autosaveError: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  guides: GuideSettings;
+  onGuidesChange: (guides: GuideSettings) => void;
 }
 
-const Toolbar: React.FC<ToolbarProps> = ({ onZoomIn, onZoomOut, zoom, onExport, onAddImage }) => {
+const Toolbar: React.FC<ToolbarProps> = ({ onZoomIn, onZoomOut, zoom, onViewFit, hasSelection, onShowShortcuts, onExport, onExportAll, onAnimate, onExportText, pageCount, onAddImage, onSaveProject, onOpenProject, onShowProjects, projectName, autosaveError, onUndo, onRedo, canUndo, canRedo, guides, onGuidesChange }) => {
   return (
     <div className="h-14 bg-zinc-900 border-b border-zinc-800 flex items-center justify-between px-4">
       <div className="flex items-center space-x-4">
@@ -17,6 +38,16 @@ const Toolbar: React.FC<ToolbarProps> = ({ onZoomIn, onZoomOut, zoom, onExport,
            <Layers className="w-6 h-6 mr-2" />
            SSRP Master
         </div>
+        <button onClick={onShowProjects} title="Projects" className="flex items-center max-w-[12rem] px-2 py-1 text-sm text-zinc-400 hover:text-white hover:bg-zinc-800 rounded">
+          <LayoutGrid className="w-4 h-4 mr-2 shrink-0" />
+          <span className="truncate">{projectName}</span>
+        </button>
+        {autosaveError && (
+          <span title={`Autosave failed: ${autosaveError}. Use Save to keep a copy.`} className="flex items-center text-xs text-red-400">
+            <AlertTriangle className="w-3.5 h-3.5 mr-1" />
+            Not saved
+          </span>
+        )}
         <div className="h-6 w-px bg-zinc-700 mx-2"></div>
         
         <label className="flex items-center px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-sm rounded cursor-pointer transition-colors">
@@ -24,25 +55,77 @@ const Toolbar: React.FC<ToolbarProps> = ({ onZoomIn, onZoomOut, zoom, onExport,
           Upload Base
           <input type="file" accept="image/*" onChange={onAddImage} className="hidden" />
         </label>
+        <label title="Open project" className="flex items-center px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-sm rounded cursor-pointer transition-colors">
+          <FolderOpen className="w-4 h-4 mr-2" />
+          Open
+          <input type="file" accept=".ssrp,application/json" onChange={onOpenProject} className="hidden" />
+        </label>
+        <button onClick={onSaveProject} title="Save project" className="flex items-center px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-sm rounded transition-colors">
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </button>
       </div>
 
       <div className="flex items-center space-x-2 bg-zinc-800 rounded-md p-1">
+        <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="p-1.5 hover:bg-zinc-700 rounded text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent">
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="p-1.5 hover:bg-zinc-700 rounded text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent">
+          <Redo2 className="w-4 h-4" />
+        </button>
+        <div className="h-4 w-px bg-zinc-700"></div>
         <button onClick={onZoomOut} className="p-1.5 hover:bg-zinc-700 rounded text-zinc-400 hover:text-white">
           <ZoomOut className="w-4 h-4" />
         </button>
-        <span className="text-xs font-mono text-zinc-400 w-12 text-center">{Math.round(zoom * 100)}%</span>
+        <button onClick={() => onViewFit('actual')} title="Actual size (100%). Ctrl+wheel or pinch to zoom at the cursor" className="text-xs font-mono text-zinc-400 hover:text-white w-12 text-center">
+          {Math.round(zoom * 100)}%
+        </button>
         <button onClick={onZoomIn} className="p-1.5 hover:bg-zinc-700 rounded text-zinc-400 hover:text-white">
           <ZoomIn className="w-4 h-4" />
         </button>
+        <button onClick={() => onViewFit('screen')} title="Fit to screen" className="p-1.5 hover:bg-zinc-700 rounded text-zinc-400 hover:text-white">
+          <Maximize className="w-4 h-4" />
+        </button>
+        <button onClick={() => onViewFit('selection')} disabled={!hasSelection} title="Zoom to selection" className="p-1.5 hover:bg-zinc-700 rounded text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent">
+          <Focus className="w-4 h-4" />
+        </button>
+        <div className="h-4 w-px bg-zinc-700"></div>
+        <GuidesMenu settings={guides} onChange={onGuidesChange} />
+        <button onClick={onShowShortcuts} title="Keyboard shortcuts (?)" className="p-1.5 hover:bg-zinc-700 rounded text-zinc-400 hover:text-white">
+          <Keyboard className="w-4 h-4" />
+        </button>
       </div>
 
       <div className="flex items-center space-x-4">
+        <button
+          onClick={onExportText}
+          className="flex items-center px-4 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-sm font-medium rounded transition-colors"
+        >
+          <FileCode className="w-4 h-4 mr-2" />
+          Forum Text
+        </button>
+        <button
+          onClick={onAnimate}
+          className="flex items-center px-4 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-sm font-medium rounded transition-colors"
+        >
+          <Film className="w-4 h-4 mr-2" />
+          Animate
+        </button>
+        {pageCount > 1 && (
+          <button
+            onClick={onExportAll}
+            className="flex items-center px-4 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-sm font-medium rounded transition-colors"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export All ({pageCount})
+          </button>
+        )}
         <button 
           onClick={onExport}
           className="flex items-center px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium rounded shadow transition-all hover:shadow-indigo-500/20"
         >
           <Download className="w-4 h-4 mr-2" />
-          Export PNG
+          Export...
         </button>
       </div>
     </div>
@@ -0,0 +1,90 @@
+import { Composition, ExportSettings, Layer, LayerType, OverlayPlacement, Project, Size } from './types.ts';
+import { clampCrop, supportsTransparency, canvasToBlob, downloadBlob } from './utils.ts';
+import { RenderOptions, renderToCanvas, findContentBounds, cropCanvas } from './renderer.ts';
+import { embedProjectInPng } from './project.ts';
+
+export const isOverlayExport = (settings: ExportSettings) => settings.layerMode !== 'all';
+
+export const getExportRenderOptions = (settings: ExportSettings, size: Size): RenderOptions => ({
+  scale: settings.scale,
+  // Overlays are meant to sit on top of footage, so they never get the black fill
+  transparent: (settings.transparent || isOverlayExport(settings)) && supportsTransparency(settings.format),
+  crop: settings.crop ? clampCrop(settings.crop, size) : null,
+});
+
+export const getExportLayers = (layers: Layer[], settings: ExportSettings): Layer[] => {
+  switch (settings.layerMode) {
+    case 'text':
+      return layers.filter(l => l.type === LayerType.TEXT || l.type === LayerType.CHAT_BLOCK);
+    case 'chosen':
+      return layers.filter(l => settings.layerIds.includes(l.id));
+    default:
+      return layers;
+  }
+};
+
+// Chosen layer ids belong to the page they were picked on; other pages export in full
+export const getPageExportSettings = (settings: ExportSettings, isActivePage: boolean): ExportSettings =>
+  settings.layerMode === 'chosen' && !isActivePage ? { ...settings, layerMode: 'all' } : settings;
+
+// Only full-page PNGs carry the project; overlays and lossy formats are final output
+export const canEmbedProject = (settings: ExportSettings) => settings.format === 'png' && !isOverlayExport(settings);
+
+export const getExportExtension = (settings: ExportSettings) => settings.format === 'jpeg' ? 'jpg' : settings.format;
+
+export interface ExportResult {
+  canvas: HTMLCanvasElement;
+  placement: OverlayPlacement | null; // Overlay exports only
+}
+
+// Render one page the way the export settings describe, without editor overlays
+export const renderExport = async (composition: Composition, settings: ExportSettings, image: string = ''): Promise<ExportResult> => {
+  const options = getExportRenderOptions(settings, composition.canvasSize);
+  const layers = getExportLayers(composition.layers, settings);
+  let canvas = await renderToCanvas(layers, composition.canvasSize, options);
+  if (!isOverlayExport(settings)) return { canvas, placement: null };
+
+  // Offsets are measured from the full frame, so a region crop is added back in
+  let x = options.crop ? Math.round(options.crop.x * settings.scale) : 0;
+  let y = options.crop ? Math.round(options.crop.y * settings.scale) : 0;
+  if (settings.trim) {
+    const bounds = findContentBounds(canvas);
+    if (bounds) {
+      canvas = cropCanvas(canvas, bounds);
+      x += bounds.x;
+      y += bounds.y;
+    }
+  }
+
+  return {
+    canvas,
+    placement: {
+      image,
+      frame: {
+        width: Math.round(composition.canvasSize.width * settings.scale),
+        height: Math.round(composition.canvasSize.height * settings.scale),
+      },
+      x,
+      y,
+      width: canvas.width,
+      height: canvas.height,
+      scale: settings.scale,
+      layers: layers.filter(l => l.visible).map(l => l.name),
+    },
+  };
+};
+
+// Writes the image and, for overlays with the sidecar enabled, its placement JSON.
+// Given a project, editable PNGs reopen on the exported page.
+export const exportComposition = async (composition: Composition, settings: ExportSettings, basename: string, project?: Project) => {
+  const image = `${basename}.${getExportExtension(settings)}`;
+  const { canvas, placement } = await renderExport(composition, settings, image);
+  let blob = await canvasToBlob(canvas, settings.format, settings.quality);
+  if (project && settings.embedProject && canEmbedProject(settings)) {
+    blob = await embedProjectInPng(blob, { ...project, activeCompositionId: composition.id });
+  }
+  downloadBlob(blob, image);
+  if (placement && settings.sidecar) {
+    downloadBlob(new Blob([JSON.stringify(placement, null, 2)], { type: 'application/json' }), `${basename}.json`);
+  }
+};
@@ -0,0 +1,269 @@
+import { Layer, LayerType, Position, Rect, TextLayer, ChatBlockLayer } from './types.ts';
+import { createGlyphMeasurer, getChatBlockTop, getFontString } from './utils.ts';
+
+// Where a layer is drawn: its unrotated box in canvas units, turned by rotation about the pivot.
+// Hit-testing, selection outlines, handles, snapping and the renderer all work from this.
+export interface LayerBox extends Rect {
+  rotation: number; // degrees, clockwise
+  pivot: Position; // Fraction of the box
+}
+
+export type TransformHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+export const TRANSFORM_HANDLES: TransformHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+export const ROTATION_SNAP = 15; // degrees
+
+const DEFAULT_PIVOT: Position = { x: 0.5, y: 0.5 };
+const MIN_SIZE = 4;
+
+// Matches the shadow offset drawRunLine uses
+const SHADOW_OFFSET = 1;
+
+type TextLike = TextLayer | ChatBlockLayer;
+
+// Where text layout starts: the left edge and the top of the first line
+export const getTextOrigin = (layer: TextLike): Position => ({
+  x: layer.x,
+  y: layer.type === LayerType.TEXT ? layer.y : getChatBlockTop(layer),
+});
+
+const getTextLines = (layer: TextLike) => layer.type === LayerType.TEXT ? layer.content.split('\n') : layer.lines.map(l => l.content);
+
+const getLineHeight = (layer: TextLike) => layer.type === LayerType.TEXT ? layer.fontSize * layer.lineHeight : layer.lineSpacing;
+
+const unionRects = (rects: Rect[]): Rect | null => {
+  if (rects.length === 0) return null;
+  const left = Math.min(...rects.map(r => r.x));
+  const top = Math.min(...rects.map(r => r.y));
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...rects.map(r => r.x + r.width)) - left,
+    height: Math.max(...rects.map(r => r.y + r.height)) - top,
+  };
+};
+
+// Layers are immutable, so measurements stay valid for as long as the layer object lives
+const lineBoxCache = new WeakMap<TextLike, (Rect | null)[]>();
+
+// Inked area of each line relative to the text origin, before scale: measured glyph bounds
+// grown by half the outline width and by the fill shadow. Blank lines are null.
+export const getTextLineBoxes = (layer: TextLike): (Rect | null)[] => {
+  const cached = lineBoxCache.get(layer);
+  if (cached) return cached;
+
+  const measure = createGlyphMeasurer(getFontString(layer));
+  const lineHeight = getLineHeight(layer);
+  const stroke = layer.strokeWidth > 0 ? layer.strokeWidth / 2 : 0;
+  const shadow = layer.shadowBlur > 0 ? layer.shadowBlur : 0;
+  const padBefore = Math.max(stroke, shadow - SHADOW_OFFSET);
+  const padAfter = Math.max(stroke, shadow > 0 ? shadow + SHADOW_OFFSET : 0);
+
+  const boxes = getTextLines(layer).map((line, i) => {
+    if (line.trim() === '') return null;
+    const glyphs = measure(line);
+    const top = i * lineHeight + glyphs.top - padBefore;
+    const left = glyphs.left - padBefore;
+    return { x: left, y: top, width: glyphs.right + padAfter - left, height: i * lineHeight + glyphs.bottom + padAfter - top };
+  });
+  lineBoxCache.set(layer, boxes);
+  return boxes;
+};
+
+// Union of the line boxes; text with nothing visible still gets one line's worth so it can be picked
+export const getTextExtent = (layer: TextLike): Rect => {
+  const inked = unionRects(getTextLineBoxes(layer).filter((r): r is Rect => r !== null));
+  return inked || { x: 0, y: 0, width: layer.fontSize / 2, height: getLineHeight(layer) };
+};
+
+export const getLayerBox = (layer: Layer): LayerBox => {
+  if (layer.type === LayerType.IMAGE) {
+    return {
+      x: layer.x,
+      y: layer.y,
+      width: layer.width * layer.scale,
+      height: layer.height * layer.scale,
+      rotation: layer.rotation,
+      pivot: layer.pivot || DEFAULT_PIVOT,
+    };
+  }
+  const origin = getTextOrigin(layer);
+  const extent = getTextExtent(layer);
+  const scaleX = layer.scaleX ?? 1;
+  const scaleY = layer.scaleY ?? 1;
+  return {
+    x: origin.x + extent.x * scaleX,
+    y: origin.y + extent.y * scaleY,
+    width: extent.width * scaleX,
+    height: extent.height * scaleY,
+    rotation: layer.rotation ?? 0,
+    pivot: layer.pivot || DEFAULT_PIVOT,
+  };
+};
+
+// Layer fields that place it in the box, the inverse of getLayerBox
+export const boxToLayer = (layer: Layer, box: LayerBox): Partial<Layer> => {
+  const { rotation, pivot } = box;
+  if (layer.type === LayerType.IMAGE) {
+    return { x: box.x, y: box.y, width: box.width / layer.scale, height: box.height / layer.scale, rotation, pivot };
+  }
+  const extent = getTextExtent(layer);
+  const scaleX = box.width / extent.width;
+  const scaleY = box.height / extent.height;
+  const top = box.y - extent.y * scaleY;
+  // Bottom-anchored chat blocks keep y at the unscaled bottom edge
+  const y = layer.type === LayerType.CHAT_BLOCK && layer.anchor === 'bottom-left' ? top + layer.lines.length * layer.lineSpacing : top;
+  return { x: box.x - extent.x * scaleX, y, scaleX, scaleY, rotation, pivot };
+};
+
+export const getPivotPoint = (box: LayerBox): Position => ({
+  x: box.x + box.pivot.x * box.width,
+  y: box.y + box.pivot.y * box.height,
+});
+
+const rotateAround = (point: Position, center: Position, degrees: number): Position => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+// Point in the box's unrotated space to where it is drawn on the canvas
+export const toCanvasPoint = (box: LayerBox, point: Position): Position => rotateAround(point, getPivotPoint(box), box.rotation);
+
+// Canvas point back into the box's unrotated space
+export const toBoxPoint = (box: LayerBox, point: Position): Position => rotateAround(point, getPivotPoint(box), -box.rotation);
+
+export const boxContainsPoint = (box: LayerBox, point: Position): boolean => {
+  const p = toBoxPoint(box, point);
+  return p.x >= box.x && p.x <= box.x + box.width && p.y >= box.y && p.y <= box.y + box.height;
+};
+
+const rectContains = (r: Rect, p: Position) => p.x >= r.x && p.x <= r.x + r.width && p.y >= r.y && p.y <= r.y + r.height;
+
+// Text is hit on its lines only, so clicks beside a short line reach the layer underneath.
+// Each line counts over its full row height, leaving no gaps between lines.
+export const layerContainsPoint = (layer: Layer, point: Position): boolean => {
+  const box = getLayerBox(layer);
+  if (!boxContainsPoint(box, point)) return false;
+  if (layer.type === LayerType.IMAGE) return true;
+
+  const p = toBoxPoint(box, point);
+  const origin = getTextOrigin(layer);
+  const local = { x: (p.x - origin.x) / (layer.scaleX ?? 1), y: (p.y - origin.y) / (layer.scaleY ?? 1) };
+  const lineHeight = getLineHeight(layer);
+  const lines = getTextLineBoxes(layer);
+  if (lines.every(r => r === null)) return true;
+  return lines.some((r, i) => r !== null && rectContains(unionRects([r, { x: r.x, y: i * lineHeight, width: r.width, height: lineHeight }])!, local));
+};
+
+// Canvas y of each line's baseline, for snapping. Rotated text has none.
+export const getTextBaselines = (layer: Layer): number[] => {
+  if (layer.type === LayerType.IMAGE || layer.rotation) return [];
+  const baseline = createGlyphMeasurer(getFontString(layer))('H').bottom; // Capitals sit on the baseline
+  const origin = getTextOrigin(layer);
+  const lineHeight = getLineHeight(layer);
+  const scaleY = layer.scaleY ?? 1;
+  return getTextLines(layer).map((_, i) => origin.y + (i * lineHeight + baseline) * scaleY);
+};
+
+// Canvas-space bounds of the given layers together, or null when there are none
+export const getLayersBounds = (layers: Layer[]): Rect | null => unionRects(layers.map(l => getBoundingRect(getLayerBox(l))));
+
+// Handle position in box space: 0 = left/top edge, 0.5 = middle, 1 = right/bottom edge
+const handleFraction = (handle: TransformHandle): Position => ({
+  x: handle.includes('w') ? 0 : handle.includes('e') ? 1 : 0.5,
+  y: handle.includes('n') ? 0 : handle.includes('s') ? 1 : 0.5,
+});
+
+const boxPointAt = (box: LayerBox, fraction: Position): Position => ({
+  x: box.x + fraction.x * box.width,
+  y: box.y + fraction.y * box.height,
+});
+
+export const getHandlePoint = (box: LayerBox, handle: TransformHandle): Position => toCanvasPoint(box, boxPointAt(box, handleFraction(handle)));
+
+export const getBoxCorners = (box: LayerBox): Position[] => (['nw', 'ne', 'se', 'sw'] as TransformHandle[]).map(h => getHandlePoint(box, h));
+
+// Axis-aligned bounds of the rotated box
+export const getBoundingRect = (box: LayerBox): Rect => {
+  const corners = getBoxCorners(box);
+  const xs = corners.map(c => c.x);
+  const ys = corners.map(c => c.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+export const rectsIntersect = (a: Rect, b: Rect) => a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+// Shift the box so the box-space point is drawn where it was in the reference box
+const keepInPlace = (reference: LayerBox, box: LayerBox, point: Position): LayerBox => {
+  const before = toCanvasPoint(reference, point);
+  const after = toCanvasPoint(box, point);
+  return { ...box, x: box.x + before.x - after.x, y: box.y + before.y - after.y };
+};
+
+// Drag a handle to a canvas point. The opposite side stays where it is on screen;
+// keepAspect scales both axes together (edge handles then grow evenly about the middle).
+export const resizeBox = (box: LayerBox, handle: TransformHandle, point: Position, keepAspect: boolean): LayerBox => {
+  const p = toBoxPoint(box, point);
+  const horizontal = handle.includes('e') || handle.includes('w');
+  const vertical = handle.includes('n') || handle.includes('s');
+  const right = box.x + box.width;
+  const bottom = box.y + box.height;
+
+  let width = box.width;
+  let height = box.height;
+  if (handle.includes('w')) width = right - p.x;
+  if (handle.includes('e')) width = p.x - box.x;
+  if (handle.includes('n')) height = bottom - p.y;
+  if (handle.includes('s')) height = p.y - box.y;
+  width = Math.max(MIN_SIZE, width);
+  height = Math.max(MIN_SIZE, height);
+
+  if (keepAspect) {
+    const factor = Math.max(
+      horizontal && vertical ? Math.max(width / box.width, height / box.height) : horizontal ? width / box.width : height / box.height,
+      MIN_SIZE / Math.min(box.width, box.height)
+    );
+    width = box.width * factor;
+    height = box.height * factor;
+  }
+
+  // The point opposite the handle keeps its place in the box and on screen
+  const handleAt = handleFraction(handle);
+  const fixedAt = { x: 1 - handleAt.x, y: 1 - handleAt.y };
+  const fixed = boxPointAt(box, fixedAt);
+  const resized: LayerBox = { ...box, x: fixed.x - fixedAt.x * width, y: fixed.y - fixedAt.y * height, width, height };
+  return keepInPlace(box, resized, fixed);
+};
+
+// Turn the box by the angle swept around its pivot from start to point
+export const rotateBox = (box: LayerBox, start: Position, point: Position, snap: boolean): LayerBox => {
+  const pivot = getPivotPoint(box);
+  const swept = Math.atan2(point.y - pivot.y, point.x - pivot.x) - Math.atan2(start.y - pivot.y, start.x - pivot.x);
+  let rotation = box.rotation + (swept * 180) / Math.PI;
+  if (snap) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+  return { ...box, rotation: ((rotation % 360) + 360) % 360 };
+};
+
+// Move the pivot to a canvas point without moving the layer on screen
+export const setBoxPivot = (box: LayerBox, point: Position): LayerBox => {
+  const p = toBoxPoint(box, point);
+  const moved = { ...box, pivot: { x: (p.x - box.x) / box.width, y: (p.y - box.y) / box.height } };
+  return keepInPlace(box, moved, { x: box.x, y: box.y });
+};
+
+// Canvas position of the handle or center within tolerance of the point, for pivot snapping
+export const snapPivot = (box: LayerBox, point: Position, tolerance: number): Position | null => {
+  const targets = [...TRANSFORM_HANDLES.map(handleFraction), DEFAULT_PIVOT];
+  const hit = targets.find(f => {
+    const p = toCanvasPoint(box, boxPointAt(box, f));
+    return Math.hypot(p.x - point.x, p.y - point.y) <= tolerance;
+  });
+  return hit ? toCanvasPoint(box, boxPointAt(box, hit)) : null;
+};
@@ -0,0 +1,166 @@
+// Minimal animated GIF89a writer: one global 256-color palette, LZW-compressed full frames
+
+type RGB = [number, number, number];
+
+const MAX_COLORS = 256;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+
+// 15-bit color key, used for histograms and the nearest-color cache
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+export const hexToRgb = (hex: string): RGB | null => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : null;
+};
+
+// Reserved colors (chat text colors) go in first so they survive quantization exactly;
+// the rest of the table is filled with the most common colors of the sample frames.
+export const buildPalette = (samples: Uint8ClampedArray[], reserved: RGB[] = []): RGB[] => {
+  const palette: RGB[] = [];
+  const used = new Set<number>();
+  reserved.forEach(color => {
+    const key = colorKey(...color);
+    if (palette.length >= MAX_COLORS / 4 || used.has(key)) return;
+    used.add(key);
+    palette.push(color);
+  });
+
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  samples.forEach(data => {
+    for (let i = 0; i < data.length; i += 4) {
+      const key = colorKey(data[i], data[i + 1], data[i + 2]);
+      counts[key]++;
+      sums[key * 3] += data[i];
+      sums[key * 3 + 1] += data[i + 1];
+      sums[key * 3 + 2] += data[i + 2];
+    }
+  });
+
+  const popular = Array.from(counts.keys())
+    .filter(key => counts[key] > 0 && !used.has(key))
+    .sort((a, b) => counts[b] - counts[a])
+    .slice(0, MAX_COLORS - palette.length);
+  popular.forEach(key => {
+    const n = counts[key];
+    palette.push([Math.round(sums[key * 3] / n), Math.round(sums[key * 3 + 1] / n), Math.round(sums[key * 3 + 2] / n)]);
+  });
+
+  while (palette.length < MAX_COLORS) palette.push([0, 0, 0]);
+  return palette;
+};
+
+const createIndexer = (palette: RGB[]) => {
+  const cache = new Int16Array(32768).fill(-1);
+  return (r: number, g: number, b: number): number => {
+    const key = colorKey(r, g, b);
+    if (cache[key] >= 0) return cache[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    palette.forEach(([pr, pg, pb], i) => {
+      const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    });
+    cache[key] = best;
+    return best;
+  };
+};
+
+// Variable-width LZW as the GIF spec expects, packed LSB first into 255-byte sub-blocks
+export const lzwEncode = (indexes: Uint8Array): number[] => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const eoiCode = clearCode + 1;
+  const bytes: number[] = [];
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = eoiCode + 1;
+  let dictionary = new Map<number, number>();
+  let buffer = 0;
+  let bufferBits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indexes[0];
+  for (let i = 1; i < indexes.length; i++) {
+    const k = indexes[i];
+    const key = (prefix << 8) | k;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      dictionary = new Map();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = eoiCode + 1;
+    } else {
+      // The decoder widens one entry late, so widen before adding the first code that needs it
+      if (nextCode >= 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(eoiCode);
+  if (bufferBits > 0) bytes.push(buffer & 0xff);
+
+  const blocks: number[] = [];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const chunk = bytes.slice(i, i + 255);
+    blocks.push(chunk.length, ...chunk);
+  }
+  return blocks;
+};
+
+const word = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+export interface GifWriter {
+  addFrame: (rgba: Uint8ClampedArray, delayMs: number) => void;
+  finish: () => Blob;
+}
+
+// Frames must all be width x height RGBA, e.g. from getImageData
+export const createGifWriter = (width: number, height: number, palette: RGB[]): GifWriter => {
+  const parts: Uint8Array[] = [];
+  const toIndex = createIndexer(palette);
+
+  parts.push(new Uint8Array([
+    ...Array.from('GIF89a', c => c.charCodeAt(0)),
+    ...word(width), ...word(height),
+    0xf7, 0, 0, // Global table of 256 colors, 8-bit resolution
+    ...palette.flat(),
+    // Netscape extension: loop forever
+    0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', c => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0,
+  ]));
+
+  return {
+    addFrame: (rgba, delayMs) => {
+      const indexes = new Uint8Array(width * height);
+      for (let i = 0, p = 0; p < indexes.length; i += 4, p++) {
+        indexes[p] = toIndex(rgba[i], rgba[i + 1], rgba[i + 2]);
+      }
+      parts.push(new Uint8Array([
+        0x21, 0xf9, 0x04, 0x04, ...word(Math.max(2, Math.round(delayMs / 10))), 0, 0, // Graphic control: keep frame, delay in 1/100 s
+        0x2c, 0, 0, 0, 0, ...word(width), ...word(height), 0,
+        MIN_CODE_SIZE,
+        ...lzwEncode(indexes),
+        0,
+      ]));
+    },
+    finish: () => new Blob([...parts, new Uint8Array([0x3b])], { type: 'image/gif' }),
+  };
+};
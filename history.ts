@@ -0,0 +1,78 @@
+// Snapshot history for undo/redo. States are immutable, so consecutive entries share
+// everything that didn't change and a snapshot costs little more than the edit itself.
+
+export interface HistoryEntry<T> {
+  state: T;
+  label: string;
+  time: number;
+  mergeKey?: string; // Consecutive edits with the same key are one action, like resizing the page for a new image
+}
+
+// A pointer press or a text field's focus. Every edit between its start and end is one step.
+export interface HistoryGesture {
+  depth: number; // Gestures can overlap: a drag that starts while a text field still has focus
+  merging: boolean; // The gesture has made its entry, so later edits extend it
+}
+
+export interface History<T> {
+  entries: HistoryEntry<T>[];
+  index: number; // Entry currently shown; entries after it can be redone
+  gesture: HistoryGesture;
+}
+
+const MAX_ENTRIES = 100;
+
+const NO_GESTURE: HistoryGesture = { depth: 0, merging: false };
+
+export const createHistory = <T>(state: T, label: string = 'Opened'): History<T> => ({
+  entries: [{ state, label, time: Date.now() }],
+  index: 0,
+  gesture: NO_GESTURE,
+});
+
+// A new gesture always starts a new step, even inside one that is still open
+export const beginGesture = <T>(history: History<T>): History<T> => ({
+  ...history,
+  gesture: { depth: history.gesture.depth + 1, merging: false },
+});
+
+export const endGesture = <T>(history: History<T>): History<T> => {
+  const depth = Math.max(0, history.gesture.depth - 1);
+  return { ...history, gesture: depth > 0 ? { ...history.gesture, depth } : NO_GESTURE };
+};
+
+export const currentState = <T>(history: History<T>): T => history.entries[history.index].state;
+
+export const pushHistory = <T>(history: History<T>, state: T, label: string, mergeKey?: string): History<T> => {
+  if (state === currentState(history)) return history;
+  const now = Date.now();
+  const top = history.entries[history.index];
+
+  // Only the newest entry is extended, never the initial state or one reached by undo
+  const atTip = history.index === history.entries.length - 1;
+  const merge = history.gesture.merging || (mergeKey !== undefined && top.mergeKey === mergeKey);
+  if (merge && atTip && history.index > 0) {
+    const entries = [...history.entries];
+    entries[history.index] = { ...top, state, time: now };
+    return { ...history, entries };
+  }
+
+  const entries = [...history.entries.slice(0, history.index + 1), { state, label, time: now, mergeKey }].slice(-MAX_ENTRIES);
+  const gesture = history.gesture.depth > 0 ? { ...history.gesture, merging: true } : history.gesture;
+  return { entries, index: entries.length - 1, gesture };
+};
+
+export const canUndo = <T>(history: History<T>) => history.index > 0;
+
+export const canRedo = <T>(history: History<T>) => history.index < history.entries.length - 1;
+
+// Edits after an undo start a new step even mid-gesture
+export const jumpTo = <T>(history: History<T>, index: number): History<T> => ({
+  ...history,
+  index: Math.max(0, Math.min(index, history.entries.length - 1)),
+  gesture: { ...history.gesture, merging: false },
+});
+
+export const undo = <T>(history: History<T>) => jumpTo(history, history.index - 1);
+
+export const redo = <T>(history: History<T>) => jumpTo(history, history.index + 1);
@@ -0,0 +1,115 @@
+const STORAGE_KEY = 'ssrp.keymap';
+
+export type ShortcutAction =
+  | 'undo' | 'redo'
+  | 'copy' | 'paste' | 'duplicate' | 'delete'
+  | 'selectAll' | 'deselect'
+  | 'nudgeLeft' | 'nudgeRight' | 'nudgeUp' | 'nudgeDown'
+  | 'nudgeLeftFar' | 'nudgeRightFar' | 'nudgeUpFar' | 'nudgeDownFar'
+  | 'bringForward' | 'sendBackward'
+  | 'toggleVisible' | 'toggleLock'
+  | 'zoomIn' | 'zoomOut' | 'fitScreen' | 'actualSize' | 'zoomToSelection'
+  | 'showShortcuts';
+
+// Each action can have several combos, written like "Ctrl+Shift+Z"
+export type Keymap = Record<ShortcutAction, string[]>;
+
+export interface ShortcutInfo {
+  action: ShortcutAction;
+  label: string;
+  group: 'Edit' | 'Selection' | 'Arrange' | 'View';
+  defaults: string[];
+}
+
+export const NUDGE_STEP = 1;
+export const NUDGE_STEP_FAR = 10;
+
+export const SHORTCUTS: ShortcutInfo[] = [
+  { action: 'undo', label: 'Undo', group: 'Edit', defaults: ['Ctrl+Z'] },
+  { action: 'redo', label: 'Redo', group: 'Edit', defaults: ['Ctrl+Shift+Z', 'Ctrl+Y'] },
+  { action: 'copy', label: 'Copy layers', group: 'Edit', defaults: ['Ctrl+C'] },
+  { action: 'paste', label: 'Paste layers', group: 'Edit', defaults: ['Ctrl+V'] },
+  { action: 'duplicate', label: 'Duplicate', group: 'Edit', defaults: ['Ctrl+D'] },
+  { action: 'delete', label: 'Delete', group: 'Edit', defaults: ['Delete', 'Backspace'] },
+  { action: 'selectAll', label: 'Select all', group: 'Selection', defaults: ['Ctrl+A'] },
+  { action: 'deselect', label: 'Deselect', group: 'Selection', defaults: ['Escape'] },
+  { action: 'toggleVisible', label: 'Hide / show', group: 'Selection', defaults: ['H'] },
+  { action: 'toggleLock', label: 'Lock / unlock', group: 'Selection', defaults: ['L'] },
+  { action: 'nudgeLeft', label: `Nudge left ${NUDGE_STEP}px`, group: 'Arrange', defaults: ['ArrowLeft'] },
+  { action: 'nudgeRight', label: `Nudge right ${NUDGE_STEP}px`, group: 'Arrange', defaults: ['ArrowRight'] },
+  { action: 'nudgeUp', label: `Nudge up ${NUDGE_STEP}px`, group: 'Arrange', defaults: ['ArrowUp'] },
+  { action: 'nudgeDown', label: `Nudge down ${NUDGE_STEP}px`, group: 'Arrange', defaults: ['ArrowDown'] },
+  { action: 'nudgeLeftFar', label: `Nudge left ${NUDGE_STEP_FAR}px`, group: 'Arrange', defaults: ['Shift+ArrowLeft'] },
+  { action: 'nudgeRightFar', label: `Nudge right ${NUDGE_STEP_FAR}px`, group: 'Arrange', defaults: ['Shift+ArrowRight'] },
+  { action: 'nudgeUpFar', label: `Nudge up ${NUDGE_STEP_FAR}px`, group: 'Arrange', defaults: ['Shift+ArrowUp'] },
+  { action: 'nudgeDownFar', label: `Nudge down ${NUDGE_STEP_FAR}px`, group: 'Arrange', defaults: ['Shift+ArrowDown'] },
+  { action: 'bringForward', label: 'Bring forward', group: 'Arrange', defaults: [']'] },
+  { action: 'sendBackward', label: 'Send backward', group: 'Arrange', defaults: ['['] },
+  { action: 'zoomIn', label: 'Zoom in', group: 'View', defaults: ['=', '+'] },
+  { action: 'zoomOut', label: 'Zoom out', group: 'View', defaults: ['-'] },
+  { action: 'fitScreen', label: 'Fit to screen', group: 'View', defaults: ['Shift+1'] },
+  { action: 'actualSize', label: 'Actual size (100%)', group: 'View', defaults: ['Shift+0'] },
+  { action: 'zoomToSelection', label: 'Zoom to selection', group: 'View', defaults: ['Shift+2'] },
+  { action: 'showShortcuts', label: 'Keyboard shortcuts', group: 'View', defaults: ['?'] },
+];
+
+// Mouse and held-key gestures, listed on the cheat sheet but not rebindable
+export const FIXED_GESTURES: { keys: string; label: string }[] = [
+  { keys: 'Shift / Ctrl + Click', label: 'Add to or remove from the selection' },
+  { keys: 'Alt + Drag', label: 'Move without snapping, rotate freely' },
+  { keys: 'Shift + Drag handle', label: 'Resize keeping the aspect ratio' },
+  { keys: 'Space + Drag', label: 'Pan the view' },
+  { keys: 'Middle Drag', label: 'Pan the view' },
+  { keys: 'Ctrl + Wheel / Pinch', label: 'Zoom at the cursor' },
+];
+
+export const DEFAULT_KEYMAP = Object.fromEntries(SHORTCUTS.map(s => [s.action, s.defaults])) as Keymap;
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+// The combo a key press stands for, or null for a bare modifier. Letters follow the layout (Ctrl+Z is
+// Ctrl+Z on AZERTY too); digits are read from the physical key so Shift+1 stays "Shift+1".
+// For other symbols the character already reflects Shift.
+export const eventToCombo = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const digit = /^Digit\d$/.test(e.code);
+  const letter = /^[a-z]$/i.test(e.key);
+  const key = digit ? e.code.slice(-1) : e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  const parts = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl'); // Cmd on macOS
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey && (digit || letter || key.length > 1)) parts.push('Shift');
+  return [...parts, key].join('+');
+};
+
+export const findShortcut = (keymap: Keymap, combo: string): ShortcutAction | null => {
+  const entry = (Object.entries(keymap) as [ShortcutAction, string[]][]).find(([, combos]) => combos.includes(combo));
+  return entry ? entry[0] : null;
+};
+
+// Give a combo to one action, taking it away from whichever action had it. Returns that action too.
+export const bindShortcut = (keymap: Keymap, action: ShortcutAction, combo: string): { keymap: Keymap; takenFrom: ShortcutAction | null } => {
+  const takenFrom = findShortcut(keymap, combo);
+  const next = { ...keymap };
+  if (takenFrom) next[takenFrom] = next[takenFrom].filter(c => c !== combo);
+  if (!next[action].includes(combo)) next[action] = [...next[action], combo];
+  return { keymap: next, takenFrom: takenFrom === action ? null : takenFrom };
+};
+
+// Stored bindings win; actions added since they were saved get their defaults
+export const loadKeymap = (): Keymap => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return Object.fromEntries(SHORTCUTS.map(s => [s.action, Array.isArray(parsed[s.action]) ? parsed[s.action] : s.defaults])) as Keymap;
+  } catch {
+    return DEFAULT_KEYMAP;
+  }
+};
+
+export const saveKeymap = (keymap: Keymap) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(keymap));
+};
+
+// Shown with the platform's own modifier name
+export const formatCombo = (combo: string) => /Mac|iPhone|iPad/.test(navigator.platform) ? combo.replace(/\bCtrl\b/, '⌘') : combo;
@@ -0,0 +1,27 @@
+import { Layer } from './types.ts';
+import { parseLayers } from './project.ts';
+
+// Shared through localStorage so layers paste into other projects and tabs
+const STORAGE_KEY = 'ssrp.layerClipboard';
+
+// Layers too large for localStorage (big base images) still paste within this tab
+let memoryCopy: Layer[] = [];
+
+export const copyLayers = (layers: Layer[]) => {
+  memoryCopy = layers;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(layers));
+  } catch {
+    localStorage.removeItem(STORAGE_KEY); // An older copy must not shadow this one
+  }
+};
+
+export const readCopiedLayers = (): Layer[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return parseLayers(JSON.parse(raw));
+  } catch {
+    // Unreadable copies are ignored
+  }
+  return memoryCopy;
+};
@@ -0,0 +1,125 @@
+// Read and write text chunks in PNG files without re-encoding the image data
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+// Browsers without CompressionStream get an uncompressed chunk, which every reader accepts
+const canCompress = () => typeof CompressionStream !== 'undefined';
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const blob = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(blob).arrayBuffer());
+};
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const writeChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const head = new Uint8Array(8);
+  const view = new DataView(head.buffer);
+  view.setUint32(0, data.length);
+  head.set(latin1(type), 4);
+  const tail = new Uint8Array(4);
+  new DataView(tail.buffer).setUint32(0, crc32(concat([latin1(type), data])));
+  return concat([head, data, tail]);
+};
+
+// iTXt layout: keyword \0 compression-flag method language \0 translated-keyword \0 text
+const buildITXt = async (keyword: string, text: string): Promise<Uint8Array> => {
+  const utf8 = new TextEncoder().encode(text);
+  const compressed = canCompress();
+  const body = compressed ? await pipeThrough(utf8, new CompressionStream('deflate')) : utf8;
+  return concat([latin1(keyword), new Uint8Array([0, compressed ? 1 : 0, 0, 0, 0]), body]);
+};
+
+const parseTextChunk = async (chunk: PngChunk, keyword: string): Promise<string | null> => {
+  const nul = chunk.data.indexOf(0);
+  if (nul < 0 || String.fromCharCode(...chunk.data.subarray(0, nul)) !== keyword) return null;
+
+  if (chunk.type === 'tEXt') return new TextDecoder('latin1').decode(chunk.data.subarray(nul + 1));
+
+  const compressed = chunk.data[nul + 1] === 1;
+  const languageEnd = chunk.data.indexOf(0, nul + 3);
+  const translatedEnd = chunk.data.indexOf(0, languageEnd + 1);
+  if (languageEnd < 0 || translatedEnd < 0) return null;
+  let body = chunk.data.subarray(translatedEnd + 1);
+  if (compressed) body = await pipeThrough(body, new DecompressionStream('deflate'));
+  return new TextDecoder().decode(body);
+};
+
+// Insert an iTXt chunk just before IEND, replacing any earlier chunk with the same keyword
+export const embedPngText = async (png: Blob, keyword: string, text: string): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  if (!isPng(bytes)) throw new Error('Not a PNG file');
+
+  const kept: Uint8Array[] = [];
+  for (const chunk of readChunks(bytes)) {
+    if (chunk.type === 'IEND') break;
+    if ((chunk.type === 'iTXt' || chunk.type === 'tEXt') && await parseTextChunk(chunk, keyword) !== null) continue;
+    kept.push(writeChunk(chunk.type, chunk.data));
+  }
+
+  return new Blob([
+    new Uint8Array(PNG_SIGNATURE),
+    ...kept,
+    writeChunk('iTXt', await buildITXt(keyword, text)),
+    writeChunk('IEND', new Uint8Array(0)),
+  ], { type: 'image/png' });
+};
+
+// Text stored under keyword in an iTXt or tEXt chunk, or null when the file has none
+export const readPngText = async (file: Blob, keyword: string): Promise<string | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isPng(bytes)) return null;
+  for (const chunk of readChunks(bytes)) {
+    if (chunk.type !== 'iTXt' && chunk.type !== 'tEXt') continue;
+    const text = await parseTextChunk(chunk, keyword);
+    if (text !== null) return text;
+  }
+  return null;
+};
@@ -0,0 +1,292 @@
+import { AnimationSettings, AnonymizerSettings, ChatBlockLayer, ChatCategory, Composition, ExportSettings, ImageLayer, Layer, LayerType, Project, TextLayer } from './types.ts';
+import { DEFAULT_EXPORT_SETTINGS } from './utils.ts';
+import { DEFAULT_ANONYMIZER } from './anonymizer.ts';
+import { DEFAULT_ANIMATION_SETTINGS } from './animation.ts';
+import { embedPngText, readPngText } from './pngMetadata.ts';
+
+// Version history:
+// 1 - bare Project object, only ever embedded in exported PNGs
+// 2 - { format, version, assets, project } with image data pulled out into a shared asset table
+export const PROJECT_VERSION = 2;
+
+export const PROJECT_FILE_EXTENSION = '.ssrp';
+
+// PNG text chunk keyword for projects embedded in exported images
+export const PNG_PROJECT_KEYWORD = 'ssrp-project';
+
+const FORMAT_ID = 'ssrp';
+const ASSET_PREFIX = 'asset:';
+
+export interface ProjectFile {
+  format: typeof FORMAT_ID;
+  version: number;
+  assets: Record<string, string>; // Key -> data URL
+  project: Project; // Image layer src is "asset:<key>"
+}
+
+// Thrown for files that cannot be opened; the message is shown to the user as-is
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+// Same base image on several pages is stored once
+const assetKey = (src: string) => {
+  let hash = 5381;
+  for (let i = 0; i < src.length; i++) hash = ((hash << 5) + hash + src.charCodeAt(i)) | 0;
+  return `${(hash >>> 0).toString(36)}-${src.length.toString(36)}`;
+};
+
+const mapImageLayers = (project: Project, fn: (layer: ImageLayer) => ImageLayer): Project => ({
+  ...project,
+  compositions: project.compositions.map(c => ({
+    ...c,
+    layers: c.layers.map(l => l.type === LayerType.IMAGE ? fn(l) : l),
+  })),
+});
+
+// Current-version document with image data moved into the asset table
+export const packProject = (project: Project): ProjectFile => {
+  const assets: Record<string, string> = {};
+  const stored = mapImageLayers(project, layer => {
+    const key = assetKey(layer.src);
+    assets[key] = layer.src;
+    return { ...layer, src: `${ASSET_PREFIX}${key}` };
+  });
+  return { format: FORMAT_ID, version: PROJECT_VERSION, assets, project: stored };
+};
+
+export const serializeProject = (project: Project): string => JSON.stringify(packProject(project));
+
+// A decoded JSON object whose fields haven't been checked yet
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each entry upgrades a file from that version to the next one
+const MIGRATIONS: Record<number, (data: Json) => Json> = {
+  1: ({ version, ...project }) => ({ format: FORMAT_ID, version: 2, assets: {}, project }),
+};
+
+const migrate = (input: unknown): Json => {
+  if (!isObject(input)) throw new ProjectFileError('This is not an SSRP project file.');
+  let data = input;
+  // Version 1 had no format marker, just the project itself
+  if (data.format === undefined && data.version === 1 && Array.isArray(data.compositions)) data = { ...data, format: FORMAT_ID };
+  if (data.format !== FORMAT_ID) throw new ProjectFileError('This is not an SSRP project file.');
+  if (typeof data.version !== 'number') throw new ProjectFileError('The project file has no version number.');
+  if (data.version > PROJECT_VERSION) {
+    throw new ProjectFileError(`This project was saved by a newer version of the app (file version ${data.version}, supported up to ${PROJECT_VERSION}).`);
+  }
+  let version = data.version;
+  while (version < PROJECT_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new ProjectFileError(`Project file version ${version} is not supported.`);
+    data = step(data);
+    version = data.version as number; // Set by the step
+  }
+  return data;
+};
+
+const fail = (path: string, problem: string): never => {
+  throw new ProjectFileError(`Invalid project file: ${path} ${problem}.`);
+};
+
+const expectType = (value: unknown, type: 'string' | 'number' | 'boolean', path: string) => {
+  if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) fail(path, `must be a ${type}`);
+};
+
+const expectObject = (value: unknown, path: string): Json => isObject(value) ? value : fail(path, 'must be an object');
+
+const expectArray = (value: unknown, path: string): unknown[] => Array.isArray(value) ? value : fail(path, 'must be a list');
+
+const expectFields = (obj: Json, fields: Record<string, 'string' | 'number' | 'boolean'>, path: string) => {
+  Object.entries(fields).forEach(([key, type]) => expectType(obj[key], type, `${path}.${key}`));
+};
+
+const expectOptionalFields = (obj: Json, fields: Record<string, 'string' | 'number' | 'boolean'>, path: string) => {
+  Object.entries(fields).forEach(([key, type]) => {
+    if (obj[key] !== undefined) expectType(obj[key], type, `${path}.${key}`);
+  });
+};
+
+const expectOneOf = (value: unknown, options: readonly string[], path: string) => {
+  if (!options.includes(value as string)) fail(path, `must be one of ${options.map(o => `"${o}"`).join(', ')}`);
+};
+
+// Numbers that divide or step a loop; zero or less would hang or break rendering
+const expectPositive = (obj: Json, keys: string[], path: string) => {
+  keys.forEach(key => { if ((obj[key] as number) <= 0) fail(`${path}.${key}`, 'must be larger than zero'); });
+};
+
+const expectStrings = (value: unknown, path: string) => {
+  expectArray(value, path).forEach((item, i) => expectType(item, 'string', `${path}[${i}]`));
+};
+
+const TEXT_STYLE_FIELDS = {
+  fontSize: 'number',
+  fontFamily: 'string',
+  strokeColor: 'string',
+  strokeWidth: 'number',
+  shadowBlur: 'number',
+  isBold: 'boolean',
+  isItalic: 'boolean',
+} as const;
+
+// Colored spans of a text layer or chat line; the renderer needs text on every one
+const validateRuns = (runs: unknown, path: string) => {
+  if (runs === undefined) return;
+  expectArray(runs, path).forEach((raw, i) => {
+    const run = expectObject(raw, `${path}[${i}]`);
+    expectType(run.text, 'string', `${path}[${i}].text`);
+    if (run.color !== undefined) expectType(run.color, 'string', `${path}[${i}].color`);
+  });
+};
+
+// On-canvas transform fields are optional on every layer type
+const validateTransform = (layer: Json, path: string) => {
+  ['rotation', 'scaleX', 'scaleY'].forEach(key => {
+    if (layer[key] !== undefined) expectType(layer[key], 'number', `${path}.${key}`);
+  });
+  if (layer.pivot !== undefined) {
+    expectFields(expectObject(layer.pivot, `${path}.pivot`), { x: 'number', y: 'number' }, `${path}.pivot`);
+  }
+};
+
+// Fields added after the first release get their defaults here so older files keep loading.
+// The casts at the end are safe because every field the type promises has been checked.
+const validateLayer = (raw: unknown, path: string, assets: Json): Layer => {
+  const base: Json = { visible: true, locked: false, name: 'Layer', ...expectObject(raw, path) };
+  expectFields(base, { id: 'string', name: 'string', visible: 'boolean', locked: 'boolean', x: 'number', y: 'number' }, path);
+  validateTransform(base, path);
+
+  switch (base.type) {
+    case LayerType.IMAGE: {
+      const filters = { brightness: 100, contrast: 100, saturation: 100, blur: 0, ...(base.filters === undefined ? {} : expectObject(base.filters, `${path}.filters`)) };
+      const layer: Json = { scale: 1, rotation: 0, ...base, filters };
+      expectFields(layer, { src: 'string', width: 'number', height: 'number', scale: 'number', rotation: 'number' }, path);
+      expectFields(filters, { brightness: 'number', contrast: 'number', saturation: 'number', blur: 'number' }, `${path}.filters`);
+      if (typeof layer.src === 'string' && layer.src.startsWith(ASSET_PREFIX)) {
+        const src = assets[layer.src.slice(ASSET_PREFIX.length)];
+        if (typeof src !== 'string') fail(`${path}.src`, `refers to missing asset "${layer.src}"`);
+        layer.src = src;
+      }
+      return layer as unknown as ImageLayer;
+    }
+    case LayerType.TEXT: {
+      const layer: Json = { lineHeight: 1.2, shadowBlur: 0, ...base };
+      expectFields(layer, { ...TEXT_STYLE_FIELDS, content: 'string', color: 'string', lineHeight: 'number' }, path);
+      expectOptionalFields(layer, { timestamp: 'string', proximity: 'number' }, path);
+      validateRuns(layer.runs, `${path}.runs`);
+      return layer as unknown as TextLayer;
+    }
+    case LayerType.CHAT_BLOCK: {
+      const layer: Json = { anchor: 'top-left', ...base };
+      expectFields(layer, { ...TEXT_STYLE_FIELDS, lineSpacing: 'number' }, path);
+      if (layer.anchor !== 'top-left' && layer.anchor !== 'bottom-left') fail(`${path}.anchor`, 'must be "top-left" or "bottom-left"');
+      expectArray(layer.lines, `${path}.lines`).forEach((raw, i) => {
+        const line = expectObject(raw, `${path}.lines[${i}]`);
+        expectFields(line, { id: 'string', content: 'string', color: 'string' }, `${path}.lines[${i}]`);
+        expectOptionalFields(line, { timestamp: 'string', proximity: 'number' }, `${path}.lines[${i}]`);
+        if (line.category !== undefined) expectOneOf(line.category, Object.values(ChatCategory), `${path}.lines[${i}].category`);
+        validateRuns(line.runs, `${path}.lines[${i}].runs`);
+      });
+      return layer as unknown as ChatBlockLayer;
+    }
+    default:
+      return fail(`${path}.type`, `is an unknown layer type "${String(base.type)}"`);
+  }
+};
+
+const validateComposition = (raw: unknown, path: string, assets: Json): Composition => {
+  const composition = expectObject(raw, path);
+  expectFields(composition, { id: 'string', name: 'string' }, path);
+  const canvasSize = expectObject(composition.canvasSize, `${path}.canvasSize`);
+  expectFields(canvasSize, { width: 'number', height: 'number' }, `${path}.canvasSize`);
+  if ((canvasSize.width as number) <= 0 || (canvasSize.height as number) <= 0) fail(`${path}.canvasSize`, 'must be larger than zero');
+  const layers = expectArray(composition.layers, `${path}.layers`).map((l, i) => validateLayer(l, `${path}.layers[${i}]`, assets));
+  return { ...composition, layers } as unknown as Composition;
+};
+
+// Settings are merged over their defaults, so a missing or partial block is fine; what is there must be valid
+const settingsOf = (value: unknown, path: string): Json => value === undefined ? {} : expectObject(value, path);
+
+const validateAnonymizer = (raw: unknown): AnonymizerSettings => {
+  const path = 'project.anonymizer';
+  const settings: Json = { ...DEFAULT_ANONYMIZER, ...settingsOf(raw, path) };
+  expectFields(settings, { prefix: 'string', applyOnImport: 'boolean' }, path);
+  Object.values(expectObject(settings.mapping, `${path}.mapping`)).forEach(alias => expectType(alias, 'string', `${path}.mapping`));
+  expectStrings(settings.exempt, `${path}.exempt`);
+  return settings as unknown as AnonymizerSettings;
+};
+
+const validateExportSettings = (raw: unknown): ExportSettings => {
+  const path = 'project.exportSettings';
+  const settings: Json = { ...DEFAULT_EXPORT_SETTINGS, ...settingsOf(raw, path) };
+  expectFields(settings, { quality: 'number', scale: 'number', transparent: 'boolean', trim: 'boolean', sidecar: 'boolean', embedProject: 'boolean' }, path);
+  expectOneOf(settings.format, ['png', 'jpeg', 'webp'], `${path}.format`);
+  expectOneOf(settings.layerMode, ['all', 'text', 'chosen'], `${path}.layerMode`);
+  expectStrings(settings.layerIds, `${path}.layerIds`);
+  expectPositive(settings, ['scale'], path);
+  if ((settings.quality as number) > 1 || (settings.quality as number) < 0) fail(`${path}.quality`, 'must be between 0 and 1');
+  if (settings.crop !== null) {
+    expectFields(expectObject(settings.crop, `${path}.crop`), { x: 'number', y: 'number', width: 'number', height: 'number' }, `${path}.crop`);
+  }
+  return settings as unknown as ExportSettings;
+};
+
+const validateAnimationSettings = (raw: unknown): AnimationSettings => {
+  const path = 'project.animationSettings';
+  const settings: Json = { ...DEFAULT_ANIMATION_SETTINGS, ...settingsOf(raw, path) };
+  expectFields(settings, { lineDelay: 'number', typingSpeed: 'number', hold: 'number', fps: 'number', scale: 'number' }, path);
+  expectOneOf(settings.order, ['stack', 'timestamp'], `${path}.order`);
+  expectOneOf(settings.reveal, ['line', 'typewriter'], `${path}.reveal`);
+  expectPositive(settings, ['typingSpeed', 'fps', 'scale'], path);
+  ['lineDelay', 'hold'].forEach(key => { if ((settings[key] as number) < 0) fail(`${path}.${key}`, 'must not be negative'); });
+  return settings as unknown as AnimationSettings;
+};
+
+const toProject = (file: Json): Project => {
+  const assets = expectObject(file.assets, 'assets');
+  const project = expectObject(file.project, 'project');
+  const rawCompositions = expectArray(project.compositions, 'project.compositions');
+  if (rawCompositions.length === 0) fail('project.compositions', 'must contain at least one page');
+  const compositions = rawCompositions.map((c, i) => validateComposition(c, `project.compositions[${i}]`, assets));
+  const activeId = project.activeCompositionId;
+  return {
+    compositions,
+    activeCompositionId: compositions.find(c => c.id === activeId)?.id ?? compositions[0].id,
+    anonymizer: validateAnonymizer(project.anonymizer),
+    exportSettings: validateExportSettings(project.exportSettings),
+    animationSettings: validateAnimationSettings(project.animationSettings),
+  };
+};
+
+// Layers copied out of any project, validated like those of a project file. Images must be inline data URLs.
+export const parseLayers = (data: unknown): Layer[] => expectArray(data, 'layers').map((l, i) => validateLayer(l, `layers[${i}]`, {}));
+
+// Migrate and validate an already-decoded document of any supported version
+export const unpackProject = (data: unknown): Project => toProject(migrate(data));
+
+// Throws ProjectFileError with a readable message for anything that can't be opened
+export const parseProject = (json: string): Project => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ProjectFileError('The project file is damaged (not valid JSON).');
+  }
+  return unpackProject(data);
+};
+
+export const embedProjectInPng = (png: Blob, project: Project): Promise<Blob> => {
+  return embedPngText(png, PNG_PROJECT_KEYWORD, serializeProject(project));
+};
+
+// The project saved inside an exported PNG, or null for an ordinary image
+export const readProjectFromPng = async (file: Blob): Promise<Project | null> => {
+  const text = await readPngText(file, PNG_PROJECT_KEYWORD);
+  return text === null ? null : parseProject(text);
+};
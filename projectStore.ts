@@ -0,0 +1,202 @@
+import { Project } from './types.ts';
+import { ProjectFile, packProject, unpackProject } from './project.ts';
+
+// Projects live in IndexedDB: documents in one store, image data as Blobs in another,
+// shared between projects by asset key so autosaves never rewrite unchanged images.
+const DB_NAME = 'ssrp';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const ASSETS = 'assets';
+const SESSION_PREFIX = 'ssrp.session.'; // + tab id
+const SESSION_CHANNEL = 'ssrp.sessions';
+const LIVENESS_TIMEOUT = 300; // ms other tabs get to answer a ping
+
+export interface StoredProjectInfo {
+  id: string;
+  name: string;
+  updatedAt: number;
+  thumbnail: Blob | null;
+}
+
+interface StoredProject extends StoredProjectInfo {
+  document: Omit<ProjectFile, 'assets'>;
+  assetKeys: string[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(PROJECTS, { keyPath: 'id' });
+        request.result.createObjectStore(ASSETS);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const listProjects = async (): Promise<StoredProjectInfo[]> => {
+  const db = await openDb();
+  const records: StoredProject[] = await promisify(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+  return records
+    .map(({ id, name, updatedAt, thumbnail }) => ({ id, name, updatedAt, thumbnail }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveProject = async (id: string, name: string, project: Project, thumbnail: Blob | null) => {
+  const { assets, ...document } = packProject(project);
+  const db = await openDb();
+
+  // Blob conversion is async, so only assets not stored yet are converted before the write
+  const existing = new Set(await promisify(db.transaction(ASSETS).objectStore(ASSETS).getAllKeys()));
+  const added = await Promise.all(Object.keys(assets)
+    .filter(key => !existing.has(key))
+    .map(async key => [key, await dataUrlToBlob(assets[key])] as const));
+
+  const tx = db.transaction([PROJECTS, ASSETS], 'readwrite');
+  added.forEach(([key, blob]) => tx.objectStore(ASSETS).put(blob, key));
+  const record: StoredProject = { id, name, updatedAt: Date.now(), thumbnail, document, assetKeys: Object.keys(assets) };
+  tx.objectStore(PROJECTS).put(record);
+  await transactionDone(tx);
+};
+
+export const loadProject = async (id: string): Promise<{ name: string; project: Project }> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, ASSETS]);
+  const record: StoredProject | undefined = await promisify(tx.objectStore(PROJECTS).get(id));
+  if (!record) throw new Error('Project not found');
+  const blobs: (Blob | undefined)[] = await Promise.all(record.assetKeys.map(key => promisify(tx.objectStore(ASSETS).get(key))));
+  const assets: Record<string, string> = {};
+  await Promise.all(record.assetKeys.map(async (key, i) => {
+    const blob = blobs[i];
+    if (blob) assets[key] = await blobToDataUrl(blob);
+  }));
+  // Stored documents go through the same migration and validation as files
+  return { name: record.name, project: unpackProject({ ...record.document, assets }) };
+};
+
+const updateRecord = async (id: string, update: (record: StoredProject) => StoredProject) => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const record: StoredProject | undefined = await promisify(store.get(id));
+  if (!record) return;
+  store.put(update(record));
+  await transactionDone(tx);
+};
+
+export const renameProject = (id: string, name: string) => updateRecord(id, record => ({ ...record, name }));
+
+export const duplicateProject = async (id: string, newId: string) => {
+  const db = await openDb();
+  const record: StoredProject | undefined = await promisify(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+  if (!record) return;
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  tx.objectStore(PROJECTS).put({ ...record, id: newId, name: `${record.name} (Copy)`, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+// Assets no other project references are removed with it
+export const deleteProject = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, ASSETS], 'readwrite');
+  const projects = tx.objectStore(PROJECTS);
+  const records: StoredProject[] = await promisify(projects.getAll());
+  const target = records.find(r => r.id === id);
+  if (!target) return;
+  const stillUsed = new Set(records.filter(r => r.id !== id).flatMap(r => r.assetKeys));
+  target.assetKeys.filter(key => !stillUsed.has(key)).forEach(key => tx.objectStore(ASSETS).delete(key));
+  projects.delete(id);
+  await transactionDone(tx);
+};
+
+// Session markers, one per tab: written when a project opens, removed on a clean page close.
+// A marker whose tab no longer answers on the broadcast channel means that tab crashed or was killed.
+interface SessionMarker {
+  projectId: string;
+  openedAt: number;
+}
+
+// New on every page load; a reloaded or restored tab finds its old marker like any other tab's
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+let channel: BroadcastChannel | null = null;
+
+// Live tabs answer pings with their id
+const getChannel = () => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(SESSION_CHANNEL);
+    channel.onmessage = (e: MessageEvent) => {
+      if (e.data?.type === 'ping') channel!.postMessage({ type: 'alive', tabId });
+    };
+  }
+  return channel;
+};
+
+export const markSessionOpen = (projectId: string) => {
+  getChannel();
+  const marker: SessionMarker = { projectId, openedAt: Date.now() };
+  localStorage.setItem(SESSION_PREFIX + tabId, JSON.stringify(marker));
+};
+
+export const markSessionClosed = () => {
+  localStorage.removeItem(SESSION_PREFIX + tabId);
+};
+
+const readOtherSessions = (): [string, SessionMarker][] => {
+  const sessions: [string, SessionMarker][] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(SESSION_PREFIX) || key === SESSION_PREFIX + tabId) continue;
+    try {
+      const marker = JSON.parse(localStorage.getItem(key) || 'null');
+      if (typeof marker?.projectId === 'string') sessions.push([key.slice(SESSION_PREFIX.length), marker]);
+    } catch {
+      // A damaged marker says nothing about a crash
+    }
+  }
+  return sessions;
+};
+
+// Project of the most recent session that crashed, or null. Its marker is cleared so only one tab offers it.
+export const findCrashedSessionId = async (): Promise<string | null> => {
+  const sessions = readOtherSessions();
+  if (sessions.length === 0) return null;
+  const alive = new Set<string>();
+  const bus = getChannel();
+  if (bus) {
+    const listen = (e: MessageEvent) => { if (e.data?.type === 'alive') alive.add(e.data.tabId); };
+    bus.addEventListener('message', listen);
+    bus.postMessage({ type: 'ping' });
+    await new Promise(resolve => setTimeout(resolve, LIVENESS_TIMEOUT));
+    bus.removeEventListener('message', listen);
+  }
+  const crashed = sessions.filter(([id]) => !alive.has(id)).sort((a, b) => b[1].openedAt - a[1].openedAt);
+  crashed.forEach(([id]) => localStorage.removeItem(SESSION_PREFIX + id));
+  return crashed.length > 0 ? crashed[0][1].projectId : null;
+};
@@ -0,0 +1,207 @@
+import { Layer, LayerType, TextLayer, ImageLayer, ChatBlockLayer, TextRun, TextStyle, Rect } from './types.ts';
+import { splitRunsByLine, runsToPlainText, getFontString, getChatBlockTop } from './utils.ts';
+import { getLayerBox, getPivotPoint, getTextOrigin } from './geometry.ts';
+
+export type ImageCache = Record<string, HTMLImageElement>;
+
+export interface RenderOptions {
+  scale?: number;
+  transparent?: boolean; // Skip the black background fill
+  crop?: Rect | null; // Region in canvas units; the output is sized to it
+}
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+};
+
+// Decode every image layer up front, keyed by layer id like the live canvas cache
+export const loadLayerImages = async (layers: Layer[]): Promise<ImageCache> => {
+  const images: ImageCache = {};
+  await Promise.all(layers.map(async layer => {
+    if (layer.type === LayerType.IMAGE) images[layer.id] = await loadImage(layer.src);
+  }));
+  return images;
+};
+
+// Draw one line of runs with the shared outline/shadow style
+export const drawRunLine = (ctx: CanvasRenderingContext2D, style: TextStyle, runs: TextRun[], color: string, x: number, y: number) => {
+  const line = runsToPlainText(runs);
+
+  // Outline (SAMP Style) - stroked as one string so it stays continuous across runs
+  if (style.strokeWidth > 0) {
+    ctx.strokeStyle = style.strokeColor;
+    ctx.lineWidth = style.strokeWidth;
+    ctx.lineJoin = 'round';
+    ctx.miterLimit = 2;
+    ctx.strokeText(line, x, y);
+  }
+
+  // Shadow
+  if (style.shadowBlur > 0) {
+    ctx.shadowColor = 'rgba(0,0,0,0.8)';
+    ctx.shadowBlur = style.shadowBlur;
+    ctx.shadowOffsetX = 1;
+    ctx.shadowOffsetY = 1;
+  } else {
+    ctx.shadowColor = 'transparent';
+    ctx.shadowBlur = 0;
+    ctx.shadowOffsetX = 0;
+    ctx.shadowOffsetY = 0;
+  }
+
+  // Fill each run, offset by the measured width of the text before it
+  let prefix = '';
+  runs.forEach(run => {
+    ctx.fillStyle = run.color || color;
+    ctx.fillText(run.text, x + ctx.measureText(prefix).width, y);
+    prefix += run.text;
+  });
+
+  // Reset Shadow for next items
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+};
+
+export const drawText = (ctx: CanvasRenderingContext2D, layer: TextLayer) => {
+  ctx.font = getFontString(layer);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+
+  // Plain layers are a single uncolored run per line
+  const lineRuns = layer.runs ? splitRunsByLine(layer.runs) : layer.content.split('\n').map(line => [{ text: line }] as TextRun[]);
+  let currentY = layer.y;
+
+  lineRuns.forEach(runs => {
+    drawRunLine(ctx, layer, runs, layer.color, layer.x, currentY);
+    currentY += layer.fontSize * layer.lineHeight;
+  });
+};
+
+// Lines stacked from the anchor with shared styling
+export const drawChatBlock = (ctx: CanvasRenderingContext2D, layer: ChatBlockLayer) => {
+  ctx.font = getFontString(layer);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+
+  const top = getChatBlockTop(layer);
+  layer.lines.forEach((line, i) => {
+    drawRunLine(ctx, layer, line.runs || [{ text: line.content }], line.color, layer.x, top + i * layer.lineSpacing);
+  });
+};
+
+// Rotate about the pivot, then scale text from its layout origin; callers wrap this in save/restore
+export const applyLayerTransform = (ctx: CanvasRenderingContext2D, layer: Layer) => {
+  if (layer.rotation) {
+    const pivot = getPivotPoint(getLayerBox(layer));
+    ctx.translate(pivot.x, pivot.y);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+    ctx.translate(-pivot.x, -pivot.y);
+  }
+  if (layer.type !== LayerType.IMAGE && (layer.scaleX !== undefined || layer.scaleY !== undefined)) {
+    const origin = getTextOrigin(layer);
+    ctx.translate(origin.x, origin.y);
+    ctx.scale(layer.scaleX ?? 1, layer.scaleY ?? 1);
+    ctx.translate(-origin.x, -origin.y);
+  }
+};
+
+export const drawImage = (ctx: CanvasRenderingContext2D, layer: ImageLayer, img: HTMLImageElement) => {
+  ctx.save();
+  // Apply filters
+  ctx.filter = `brightness(${layer.filters.brightness}%) contrast(${layer.filters.contrast}%) saturate(${layer.filters.saturation}%) blur(${layer.filters.blur}px)`;
+  applyLayerTransform(ctx, layer);
+  ctx.drawImage(img, layer.x, layer.y, layer.width * layer.scale, layer.height * layer.scale);
+  ctx.restore();
+};
+
+// Draw visible layers bottom-up in canvas units. The caller sets up any zoom transform.
+export const renderLayers = (
+  ctx: CanvasRenderingContext2D,
+  layers: Layer[],
+  images: ImageCache,
+  size: { width: number; height: number },
+  background: string | null = '#000000'
+) => {
+  // Standard SAMP black screen under everything
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, size.width, size.height);
+  }
+
+  layers.filter(l => l.visible).forEach(layer => {
+    if (layer.type === LayerType.IMAGE) {
+      const img = images[layer.id];
+      if (img) drawImage(ctx, layer, img);
+    }
+    if (layer.type === LayerType.TEXT || layer.type === LayerType.CHAT_BLOCK) {
+      ctx.save();
+      applyLayerTransform(ctx, layer);
+      if (layer.type === LayerType.TEXT) drawText(ctx, layer);
+      else drawChatBlock(ctx, layer);
+      ctx.restore();
+    }
+  });
+};
+
+// Clear and draw the scene at a scale factor. The live canvas passes its zoom, export passes the output scale.
+export const drawScene = (
+  ctx: CanvasRenderingContext2D,
+  layers: Layer[],
+  images: ImageCache,
+  size: { width: number; height: number },
+  { scale = 1, transparent = false, crop = null }: RenderOptions = {}
+) => {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.scale(scale, scale);
+  if (crop) ctx.translate(-crop.x, -crop.y);
+  renderLayers(ctx, layers, images, size, transparent ? null : '#000000');
+};
+
+// Render a whole composition to a fresh canvas at its native size times scale, without editor overlays
+export const renderToCanvas = async (
+  layers: Layer[],
+  size: { width: number; height: number },
+  options: RenderOptions = {}
+): Promise<HTMLCanvasElement> => {
+  const images = await loadLayerImages(layers);
+  const scale = options.scale ?? 1;
+  const region = options.crop || { width: size.width, height: size.height };
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(region.width * scale));
+  canvas.height = Math.max(1, Math.round(region.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (ctx) drawScene(ctx, layers, images, size, options);
+  return canvas;
+};
+
+// Smallest rectangle holding every non-transparent pixel, in canvas pixels; null when empty
+export const findContentBounds = (canvas: HTMLCanvasElement): Rect | null => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+export const cropCanvas = (source: HTMLCanvasElement, rect: Rect): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = rect.width;
+  canvas.height = rect.height;
+  canvas.getContext('2d')?.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  return canvas;
+};
@@ -0,0 +1,104 @@
+import { GuideSettings, Layer, Position, Size } from './types.ts';
+import { getBoundingRect, getLayerBox, getLayersBounds, getTextBaselines } from './geometry.ts';
+
+const STORAGE_KEY = 'ssrp.guides';
+
+export const DEFAULT_GUIDE_SETTINGS: GuideSettings = {
+  snap: true,
+  gridSize: 10,
+  margin: 20,
+  showGrid: false,
+  showRulers: false,
+};
+
+export const SNAP_DISTANCE = 6; // screen px
+
+export const loadGuideSettings = (): GuideSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_GUIDE_SETTINGS, ...JSON.parse(raw) } : DEFAULT_GUIDE_SETTINGS;
+  } catch {
+    return DEFAULT_GUIDE_SETTINGS;
+  }
+};
+
+export const saveGuideSettings = (settings: GuideSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Canvas-space lines on each axis: x values are vertical lines, y values horizontal ones
+export interface SnapLines {
+  x: number[];
+  y: number[];
+}
+
+// What a moving selection can land on: canvas edges, center and margins, and the
+// edges, centers and text baselines of every other visible layer
+export const getSnapTargets = (layers: Layer[], size: Size, margin: number): SnapLines => {
+  const x = [0, size.width / 2, size.width];
+  const y = [0, size.height / 2, size.height];
+  if (margin > 0) {
+    x.push(margin, size.width - margin);
+    y.push(margin, size.height - margin);
+  }
+  layers.filter(l => l.visible).forEach(layer => {
+    const r = getBoundingRect(getLayerBox(layer));
+    x.push(r.x, r.x + r.width / 2, r.x + r.width);
+    y.push(r.y, r.y + r.height / 2, r.y + r.height, ...getTextBaselines(layer));
+  });
+  return { x, y };
+};
+
+// The lines of a selection that snap. The first entry on each axis is its top-left, which follows the grid.
+export const getSnapSources = (layers: Layer[]): SnapLines => {
+  const b = getLayersBounds(layers);
+  if (!b) return { x: [], y: [] };
+  return {
+    x: [b.x, b.x + b.width / 2, b.x + b.width],
+    y: [b.y, b.y + b.height / 2, b.y + b.height, ...layers.flatMap(getTextBaselines)],
+  };
+};
+
+// Smallest correction that puts a source line on a target, and every target it lands on
+const snapAxis = (sources: number[], targets: number[], offset: number, tolerance: number) => {
+  let delta: number | null = null;
+  let lines: number[] = [];
+  for (const source of sources) {
+    for (const target of targets) {
+      const d = target - (source + offset);
+      if (Math.abs(d) > tolerance) continue;
+      if (delta === null || Math.abs(d) < Math.abs(delta) - 0.01) {
+        delta = d;
+        lines = [target];
+      } else if (Math.abs(d - delta) <= 0.01 && !lines.includes(target)) {
+        lines.push(target);
+      }
+    }
+  }
+  return delta === null ? null : { delta, lines };
+};
+
+// Adjust a drag offset so the selection snaps to the nearest target on each axis.
+// Without a target in reach the top-left follows the grid instead.
+export const snapOffset = (
+  sources: SnapLines,
+  targets: SnapLines,
+  offset: Position,
+  tolerance: number,
+  gridSize: number
+): { offset: Position; guides: SnapLines } => {
+  const result = { ...offset };
+  const guides: SnapLines = { x: [], y: [] };
+  (['x', 'y'] as const).forEach(axis => {
+    if (sources[axis].length === 0) return;
+    const snap = snapAxis(sources[axis], targets[axis], offset[axis], tolerance);
+    if (snap) {
+      result[axis] = offset[axis] + snap.delta;
+      guides[axis] = snap.lines;
+    } else if (gridSize > 0) {
+      const start = sources[axis][0];
+      result[axis] = Math.round((start + offset[axis]) / gridSize) * gridSize - start;
+    }
+  });
+  return { offset: result, guides };
+};
@@ -0,0 +1,79 @@
+import { Layer, LayerType, TextRun } from './types.ts';
+import { splitRunsByLine } from './utils.ts';
+
+export type TextExportFormat = 'bbcode' | 'html';
+
+// A chat line as forums see it: colored runs plus the layer's weight and slant
+interface ExportLine {
+  runs: TextRun[];
+  color: string;
+  isBold: boolean;
+  isItalic: boolean;
+  timestamp?: string;
+}
+
+// Text layers and chat block lines, bottom layer first, which is the order lines were added in
+const getExportLines = (layers: Layer[]): ExportLine[] => layers.filter(l => l.visible).flatMap(layer => {
+  if (layer.type === LayerType.TEXT) {
+    const lines = layer.runs ? splitRunsByLine(layer.runs) : layer.content.split('\n').map(text => [{ text }]);
+    return lines.map(runs => ({ runs, color: layer.color, isBold: layer.isBold, isItalic: layer.isItalic, timestamp: layer.timestamp }));
+  }
+  if (layer.type === LayerType.CHAT_BLOCK) {
+    return layer.lines.map(line => ({
+      runs: line.runs || [{ text: line.content }],
+      color: line.color,
+      isBold: layer.isBold,
+      isItalic: layer.isItalic,
+      timestamp: line.timestamp,
+    }));
+  }
+  return [];
+});
+
+const normalizeColor = (color: string) => color.toUpperCase();
+
+// Uncolored runs take the line color, so every run is wrapped
+const lineToBBCode = (line: ExportLine, withTimestamp: boolean) => {
+  let body = line.runs.map(run => `[color=${normalizeColor(run.color || line.color)}]${run.text}[/color]`).join('');
+  if (withTimestamp && line.timestamp) body = `[color=${normalizeColor(line.color)}][${line.timestamp}][/color] ${body}`;
+  if (line.isItalic) body = `[i]${body}[/i]`;
+  if (line.isBold) body = `[b]${body}[/b]`;
+  return body;
+};
+
+export const layersToBBCode = (layers: Layer[], withTimestamps: boolean = false): string => {
+  return getExportLines(layers).map(line => lineToBBCode(line, withTimestamps)).join('\n');
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const lineToHtml = (line: ExportLine, withTimestamp: boolean) => {
+  const style = `color:${normalizeColor(line.color)}${line.isBold ? ';font-weight:bold' : ''}${line.isItalic ? ';font-style:italic' : ''}`;
+  const stamp = withTimestamp && line.timestamp ? `[${line.timestamp}] ` : '';
+  const runs = line.runs.map(run => run.color ? `<span style="color:${normalizeColor(run.color)}">${escapeHtml(run.text)}</span>` : escapeHtml(run.text)).join('');
+  return `    <div style="${style}">${escapeHtml(stamp)}${runs || '&nbsp;'}</div>`;
+};
+
+// Standalone page with the same dark background and outline look as the screenshot
+export const layersToHtml = (layers: Layer[], title: string = 'Chatlog', withTimestamps: boolean = false): string => [
+  '<!DOCTYPE html>',
+  '<html>',
+  '<head>',
+  '  <meta charset="utf-8">',
+  `  <title>${escapeHtml(title)}</title>`,
+  '  <style>',
+  '    body { background: #000000; margin: 0; padding: 16px; }',
+  '    .chatlog { font-family: Arial, sans-serif; font-size: 13px; line-height: 1.6; text-shadow: 1px 1px 0 #000, -1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000; white-space: pre-wrap; }',
+  '  </style>',
+  '</head>',
+  '<body>',
+  '  <div class="chatlog">',
+  ...getExportLines(layers).map(line => lineToHtml(line, withTimestamps)),
+  '  </div>',
+  '</body>',
+  '</html>',
+].join('\n');
@@ -11,6 +11,7 @@ export interface Size {
 export enum LayerType {
   IMAGE = 'image',
   TEXT = 'text',
+  CHAT_BLOCK = 'chat_block',
 }
 
 export interface BaseLayer {
@@ -30,6 +31,7 @@ export interface ImageLayer extends BaseLayer {
   height: number;
   scale: number;
   rotation: number; // degrees
+  pivot?: Position; // Rotation origin as a fraction of the image box; default center
   filters: {
     brightness: number; // 100 base
     contrast: number; // 100 base
@@ -38,7 +40,21 @@ export interface ImageLayer extends BaseLayer {
   };
 }
 
-export interface TextLayer extends BaseLayer {
+// A styled span of a text layer. Runs without a color inherit the layer color.
+export interface TextRun {
+  text: string;
+  color?: string;
+}
+
+// On-canvas transform of text layers and chat blocks, applied on top of the laid-out text
+export interface TextTransform {
+  rotation?: number; // degrees, clockwise
+  scaleX?: number;
+  scaleY?: number;
+  pivot?: Position; // Rotation origin as a fraction of the layer box; default center
+}
+
+export interface TextLayer extends BaseLayer, TextTransform {
   type: LayerType.TEXT;
   content: string;
   x: number;
@@ -52,9 +68,66 @@ export interface TextLayer extends BaseLayer {
   lineHeight: number;
   isBold: boolean;
   isItalic: boolean;
+  runs?: TextRun[]; // When set, concatenated run text equals content
+  timestamp?: string; // HH:MM:SS from the source chatlog
+  proximity?: number; // Talk range 1-5; color follows PROXIMITY_FADE_COLORS while set
 }
 
-export type Layer = ImageLayer | TextLayer;
+// Font and outline settings shared by text layers and chat blocks
+export interface TextStyle {
+  fontSize: number;
+  fontFamily: string;
+  strokeColor: string;
+  strokeWidth: number;
+  shadowBlur: number;
+  isBold: boolean;
+  isItalic: boolean;
+}
+
+export interface ChatBlockLine {
+  id: string;
+  content: string;
+  color: string;
+  runs?: TextRun[];
+  category?: ChatCategory;
+  timestamp?: string;
+  proximity?: number;
+}
+
+// A conversation laid out as one unit. Lines stack down from (x, y) for 'top-left',
+// or up from it for 'bottom-left' like the in-game chatbox.
+export interface ChatBlockLayer extends BaseLayer, TextStyle, TextTransform {
+  type: LayerType.CHAT_BLOCK;
+  x: number;
+  y: number;
+  anchor: 'top-left' | 'bottom-left';
+  lineSpacing: number; // px per line
+  lines: ChatBlockLine[];
+}
+
+export type Layer = ImageLayer | TextLayer | ChatBlockLayer;
+
+// Editor guides; a per-browser preference, not saved with projects
+export interface GuideSettings {
+  snap: boolean;
+  gridSize: number; // px; snapped to only while the grid is shown, 0 turns it off
+  margin: number; // Safe-area inset from the canvas edges, px
+  showGrid: boolean; // Also shows the margins
+  showRulers: boolean;
+}
+
+// New position of one layer in a group move
+export interface LayerPosition extends Position {
+  id: string;
+}
+
+// One screenshot page: its own layer stack and canvas size
+export interface Composition {
+  id: string;
+  name: string;
+  layers: Layer[];
+  canvasSize: Size;
+}
 
 export enum PresetColor {
   WHITE = '#FFFFFF',
@@ -76,3 +149,155 @@ export const PRESET_COLORS = [
   { name: 'Success (Green)', value: PresetColor.GREEN },
   { name: 'Server (Cyan)', value: PresetColor.SERVER },
 ];
+
+// SA-MP ProxDetector fade, nearest (1) to furthest (5) talk range
+export const PROXIMITY_FADE_COLORS = ['#E6E6E6', '#C8C8C8', '#AAAAAA', '#8C8C8C', '#6E6E6E'];
+
+export enum ChatCategory {
+  TALK = 'talk',
+  ME = 'me',
+  DO = 'do',
+  LOW = 'low',
+  SHOUT = 'shout',
+  WHISPER = 'whisper',
+  PM = 'pm',
+  RADIO = 'radio',
+  DEPARTMENT = 'department',
+  OOC = 'ooc',
+  ADMIN = 'admin',
+  SERVER = 'server',
+  OTHER = 'other',
+}
+
+export interface ChatFormatRule {
+  id: string;
+  category: ChatCategory;
+  pattern: string; // RegExp source, tested against the line without timestamp
+  flags: string;
+  color: string;
+}
+
+// A server's chat conventions. Rules are evaluated in order, first match wins.
+export interface ChatFormatProfile {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  defaultColor: string;
+  rules: ChatFormatRule[];
+}
+
+export interface ParsedChatLine {
+  content: string;
+  color: string;
+  category: ChatCategory;
+  runs?: TextRun[];
+  timestamp?: string;
+  proximity?: number;
+  y: number;
+}
+
+// One non-empty line of a raw chatlog, before color detection
+export interface ChatlogEntry {
+  index: number;
+  timestamp?: string; // HH:MM:SS
+  text: string;
+}
+
+export interface ChatlogParseOptions {
+  startY?: number;
+  profile?: ChatFormatProfile;
+  lineSpacing?: number;
+  filters?: ChatFilterRule[];
+  proximityFade?: boolean; // Color speech lines by talk range instead of the profile color
+  // When set, long lines are split in-game style at this measured width
+  wrap?: { maxWidth: number; measure: (text: string) => number };
+}
+
+export enum ChatFilterMatch {
+  REGEX = 'regex',
+  CATEGORY = 'category',
+  PLAYER = 'player',
+}
+
+export interface ChatFilterRule {
+  id: string;
+  action: 'include' | 'exclude';
+  match: ChatFilterMatch;
+  value: string; // RegExp source, ChatCategory value or player name depending on match
+  enabled: boolean;
+}
+
+// A named, shareable cleanup profile
+export interface ChatFilterSet {
+  id: string;
+  name: string;
+  rules: ChatFilterRule[];
+}
+
+// Project-wide name masking. Keys are player names in "Firstname Lastname" form.
+export interface AnonymizerSettings {
+  prefix: string; // e.g. "Stranger" -> Stranger_1234
+  mapping: Record<string, string>;
+  exempt: string[];
+  applyOnImport: boolean;
+}
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export interface Rect extends Position, Size {}
+
+// 'text' and 'chosen' produce a transparent overlay without the base image
+export type ExportLayerMode = 'all' | 'text' | 'chosen';
+
+// Last-used export options, kept with the project
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number; // 0-1, ignored for PNG
+  scale: number;
+  transparent: boolean; // PNG/WebP only
+  crop: Rect | null; // Canvas units; null = whole canvas
+  layerMode: ExportLayerMode;
+  layerIds: string[]; // Used when layerMode is 'chosen'
+  trim: boolean; // Overlays only: cut to the drawn pixels
+  sidecar: boolean; // Overlays only: write placement JSON next to the image
+  embedProject: boolean; // PNG only: store the project in the file so it can be reopened
+}
+
+// Where an overlay image goes on the full frame, in output pixels
+export interface OverlayPlacement {
+  image: string;
+  frame: Size;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scale: number;
+  layers: string[]; // Layer names in the overlay
+}
+
+// Line-by-line reveal of the text layers over the rest of the page
+export interface AnimationSettings {
+  order: 'stack' | 'timestamp';
+  reveal: 'line' | 'typewriter';
+  lineDelay: number; // ms before each line starts
+  typingSpeed: number; // Characters per second in typewriter mode
+  hold: number; // ms the finished frame stays up
+  fps: number;
+  scale: number;
+}
+
+// One line of a merged transcript and which of the loaded logs contained it
+export interface MergedChatLine {
+  entry: ChatlogEntry;
+  sources: string[]; // Log names
+  flag?: 'single-source' | 'conflict';
+}
+
+// Everything needed to restore an editing session
+export interface Project {
+  compositions: Composition[];
+  activeCompositionId: string;
+  anonymizer: AnonymizerSettings;
+  exportSettings: ExportSettings;
+  animationSettings: AnimationSettings;
+}
@@ -1,42 +1,355 @@
+import { ChatBlockLayer, ChatCategory, ChatFilterRule, ChatFormatProfile, ChatlogEntry, ChatlogParseOptions, ExportFormat, ExportSettings, Layer, LayerType, ParsedChatLine, PROXIMITY_FADE_COLORS, Rect, Size, TextRun } from './types.ts';
+import { DEFAULT_PROFILE, matchChatRule } from './chatProfiles.ts';
+import { isLineKept } from './chatFilters.ts';
+
 export const generateId = (): string => {
   return Math.random().toString(36).substr(2, 9);
 };
 
-// Heuristic to detect chat type based on common SAMP Roleplay formats
-export const detectChatColor = (text: string): string => {
-  const lower = text.toLowerCase();
-  if (text.startsWith('*')) return '#C2A2DA'; // /me action
-  if (lower.includes('says:')) return '#FFFFFF'; // Normal talk
-  if (lower.includes('shouts:')) return '#FFFFFF'; 
-  if (lower.includes('whispers:')) return '#FFFFFF';
-  if (lower.startsWith('((') || lower.endsWith('))')) return '#A9C4E4'; // OOC
-  return '#FFFFFF';
+// A copy of a layer that shares no ids with the original, chat block lines included
+export const cloneLayer = (layer: Layer, updates: Partial<Layer> = {}): Layer => ({
+  ...layer,
+  ...updates,
+  id: generateId(),
+  ...(layer.type === LayerType.CHAT_BLOCK ? { lines: layer.lines.map(line => ({ ...line, id: generateId() })) } : {}),
+}) as Layer;
+
+// Resolve a chat line against the active server profile (first matching rule wins)
+export const detectChatLine = (text: string, profile: ChatFormatProfile = DEFAULT_PROFILE): { category: ChatCategory; color: string } => {
+  const match = matchChatRule(text, profile);
+  if (match) return { category: match.category, color: match.color };
+  return { category: ChatCategory.OTHER, color: profile.defaultColor };
+};
+
+export const detectChatColor = (text: string, profile: ChatFormatProfile = DEFAULT_PROFILE): string => {
+  return detectChatLine(text, profile).color;
+};
+
+// Starting talk range for speech lines: quieter speech reaches fewer players at full brightness
+const PROXIMITY_BY_CATEGORY: Partial<Record<ChatCategory, number>> = {
+  [ChatCategory.TALK]: 1,
+  [ChatCategory.SHOUT]: 1,
+  [ChatCategory.LOW]: 2,
+  [ChatCategory.WHISPER]: 3,
+};
+
+export const detectProximity = (category: ChatCategory): number | undefined => PROXIMITY_BY_CATEGORY[category];
+
+export const getProximityColor = (level: number): string => {
+  return PROXIMITY_FADE_COLORS[Math.min(Math.max(Math.round(level), 1), PROXIMITY_FADE_COLORS.length) - 1];
+};
+
+const COLOR_CODE_REGEX = /\{([0-9A-Fa-f]{6})\}/g;
+
+export const hasColorCodes = (text: string): boolean => new RegExp(COLOR_CODE_REGEX.source).test(text);
+
+// Split SA-MP inline codes like {FFFFFF}text{C2A2DA}more into runs.
+// Text before the first code has no color and inherits the layer color.
+export const parseColorCodes = (text: string): TextRun[] => {
+  const runs: TextRun[] = [];
+  let color: string | undefined;
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(COLOR_CODE_REGEX)) {
+    if (match.index! > lastIndex) runs.push({ text: text.slice(lastIndex, match.index), color });
+    color = `#${match[1].toUpperCase()}`;
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < text.length) runs.push({ text: text.slice(lastIndex), color });
+
+  return runs;
+};
+
+export const runsToPlainText = (runs: TextRun[]): string => runs.map(r => r.text).join('');
+
+export const runsToColorCodes = (runs: TextRun[]): string => {
+  return runs.map(r => r.color ? `{${r.color.replace('#', '').toUpperCase()}}${r.text}` : r.text).join('');
+};
+
+// Break runs into per-line run lists on '\n', keeping colors across the break
+export const splitRunsByLine = (runs: TextRun[]): TextRun[][] => {
+  const lines: TextRun[][] = [[]];
+  runs.forEach(run => {
+    run.text.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ text: part, color: run.color });
+    });
+  });
+  return lines;
+};
+
+const TIMESTAMP_REGEX = /^\[(\d{2}:\d{2}:\d{2})\]\s*/;
+
+// Split a raw chatlog into non-empty lines, lifting [HH:MM:SS] prefixes into metadata
+export const splitChatlog = (rawText: string): ChatlogEntry[] => {
+  const entries: ChatlogEntry[] = [];
+  rawText.split(/\r?\n/).forEach((line) => {
+    if (line.trim() === '') return;
+    const match = line.match(TIMESTAMP_REGEX);
+    entries.push({
+      index: entries.length,
+      timestamp: match ? match[1] : undefined,
+      text: match ? line.slice(match[0].length) : line,
+    });
+  });
+  return entries;
+};
+
+export const timestampToSeconds = (timestamp: string): number => {
+  const [h, m, s] = timestamp.split(':').map(Number);
+  return h * 3600 + m * 60 + s;
+};
+
+// Inclusive range check; a window whose end is before its start wraps past midnight
+export const isWithinTimeRange = (timestamp: string, from: string, to: string): boolean => {
+  const t = timestampToSeconds(timestamp);
+  const start = timestampToSeconds(from);
+  const end = timestampToSeconds(to);
+  return start <= end ? t >= start && t <= end : t >= start || t <= end;
+};
+
+// Defaults shared by the chatlog parser and the layers it produces
+export const CHAT_LINE_DEFAULTS = {
+  x: 30, // Standard left padding
+  fontSize: 13,
+  fontFamily: 'Arial',
+  isBold: true,
+  isItalic: false,
+  lineSpacing: 24,
+};
+
+export const getFontString = (style: { fontSize: number; fontFamily: string; isBold: boolean; isItalic: boolean }): string => {
+  return `${style.isItalic ? 'italic' : 'normal'} ${style.isBold ? 'bold' : 'normal'} ${style.fontSize}px ${style.fontFamily}`;
+};
+
+export const getChatBlockTop = (block: ChatBlockLayer): number => {
+  return block.anchor === 'bottom-left' ? block.y - block.lines.length * block.lineSpacing : block.y;
+};
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+// Width measurement against a shared offscreen context, for layout outside the renderer
+export const createTextMeasurer = (font: string) => {
+  if (!measureCtx) measureCtx = document.createElement('canvas').getContext('2d');
+  return (text: string): number => {
+    if (!measureCtx) return text.length * 7;
+    measureCtx.font = font;
+    return measureCtx.measureText(text).width;
+  };
+};
+
+// Glyph bounds relative to the drawing point, with the renderer's top baseline
+export const createGlyphMeasurer = (font: string) => {
+  if (!measureCtx) measureCtx = document.createElement('canvas').getContext('2d');
+  return (text: string): { left: number; right: number; top: number; bottom: number } => {
+    if (!measureCtx) return { left: 0, right: text.length * 7, top: 0, bottom: 14 };
+    measureCtx.font = font;
+    measureCtx.textBaseline = 'top';
+    const m = measureCtx.measureText(text);
+    return { left: -m.actualBoundingBoxLeft, right: m.actualBoundingBoxRight, top: -m.actualBoundingBoxAscent, bottom: m.actualBoundingBoxDescent };
+  };
+};
+
+const sliceRuns = (runs: TextRun[], start: number, end: number): TextRun[] => {
+  const sliced: TextRun[] = [];
+  let offset = 0;
+  runs.forEach(run => {
+    const from = Math.max(start, offset);
+    const to = Math.min(end, offset + run.text.length);
+    if (from < to) sliced.push({ text: run.text.slice(from - offset, to - offset), color: run.color });
+    offset += run.text.length;
+  });
+  return sliced;
+};
+
+const WRAP_SUFFIX = ' ...';
+const WRAP_PREFIX = '... ';
+
+// Split a line the way SA-MP does: break at a word before maxWidth, end the line
+// with " ..." and start the continuation with "... ".
+export const wrapChatLine = (runs: TextRun[], maxWidth: number, measure: (text: string) => number): TextRun[][] => {
+  const text = runsToPlainText(runs);
+  const ranges: [number, number][] = [];
+  let pos = 0;
+
+  while (pos < text.length) {
+    const prefix = ranges.length > 0 ? WRAP_PREFIX : '';
+    if (measure(prefix + text.slice(pos)) <= maxWidth) {
+      ranges.push([pos, text.length]);
+      break;
+    }
+
+    // Longest slice that still fits together with the continuation marks
+    let lo = pos + 1;
+    let hi = text.length;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (measure(prefix + text.slice(pos, mid) + WRAP_SUFFIX) <= maxWidth) lo = mid;
+      else hi = mid - 1;
+    }
+    let end = lo;
+    const space = text.lastIndexOf(' ', end);
+    if (space > pos) end = space;
+
+    ranges.push([pos, end]);
+    pos = end;
+    while (text[pos] === ' ') pos++;
+  }
+
+  return ranges.map(([start, end], i) => {
+    const piece = sliceRuns(runs, start, end);
+    if (piece.length === 0) return piece;
+    if (i > 0) piece.unshift({ text: WRAP_PREFIX, color: piece[0].color });
+    if (i < ranges.length - 1) piece.push({ text: WRAP_SUFFIX, color: piece[piece.length - 1].color });
+    return piece;
+  });
 };
 
-// Format text for chatlog parsing
-export const parseChatlog = (rawText: string, startY: number = 50): any[] => {
-  const lines = rawText.split('\n').filter(l => l.trim() !== '');
-  const layers: any[] = [];
+// Format text for chatlog parsing. Accepts raw text or entries already picked from splitChatlog.
+export const parseChatlog = (source: string | ChatlogEntry[], options: ChatlogParseOptions = {}): ParsedChatLine[] => {
+  const {
+    startY = 50,
+    profile = DEFAULT_PROFILE,
+    lineSpacing = CHAT_LINE_DEFAULTS.lineSpacing,
+    filters = [],
+    proximityFade = false,
+    wrap,
+  } = options;
+  const entries = typeof source === 'string' ? splitChatlog(source) : source;
+  const layers: ParsedChatLine[] = [];
   let currentY = startY;
 
-  lines.forEach((line) => {
-    // Remove timestamps if present e.g., [12:00:00]
-    const cleanText = line.replace(/^\[\d{2}:\d{2}:\d{2}\]\s*/, '');
-    
-    layers.push({
-      content: cleanText,
-      color: detectChatColor(cleanText),
-      y: currentY
+  entries.forEach((entry) => {
+    const hasCodes = hasColorCodes(entry.text);
+    const runs = hasCodes ? parseColorCodes(entry.text) : [{ text: entry.text }];
+    // Detect on the full line so continuation pieces keep the original color
+    const plainText = runsToPlainText(runs);
+    const { category, color } = detectChatLine(plainText, profile);
+    if (!isLineKept(plainText, category, filters)) return;
+    const proximity = proximityFade ? detectProximity(category) : undefined;
+    const pieces = wrap ? wrapChatLine(runs, wrap.maxWidth, wrap.measure) : [runs];
+
+    pieces.forEach(piece => {
+      layers.push({
+        content: runsToPlainText(piece),
+        color: proximity ? getProximityColor(proximity) : color,
+        category,
+        runs: hasCodes ? piece : undefined,
+        timestamp: entry.timestamp,
+        proximity,
+        y: currentY
+      });
+      currentY += lineSpacing;
     });
-    currentY += 24; // Default spacing
   });
 
   return layers;
 };
 
-export const downloadCanvas = (canvas: HTMLCanvasElement, filename: string) => {
+// Split parsed lines into pages of at most pageSize lines (like /pagesize),
+// restarting the layout at startY on every page
+export const paginateChatLines = (
+  lines: ParsedChatLine[],
+  pageSize: number,
+  startY: number = 50,
+  lineSpacing: number = CHAT_LINE_DEFAULTS.lineSpacing
+): ParsedChatLine[][] => {
+  if (pageSize <= 0 || lines.length <= pageSize) return [lines];
+  const pages: ParsedChatLine[][] = [];
+  for (let i = 0; i < lines.length; i += pageSize) {
+    pages.push(lines.slice(i, i + pageSize).map((line, j) => ({ ...line, y: startY + j * lineSpacing })));
+  }
+  return pages;
+};
+
+// Filter outcome per line, for previewing what parseChatlog would drop
+export const previewChatFilters = (
+  source: string | ChatlogEntry[],
+  profile: ChatFormatProfile,
+  filters: ChatFilterRule[]
+): { entry: ChatlogEntry; category: ChatCategory; kept: boolean }[] => {
+  const entries = typeof source === 'string' ? splitChatlog(source) : source;
+  return entries.map(entry => {
+    const plainText = hasColorCodes(entry.text) ? runsToPlainText(parseColorCodes(entry.text)) : entry.text;
+    const { category } = detectChatLine(plainText, profile);
+    return { entry, category, kept: isLineKept(plainText, category, filters) };
+  });
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  quality: 0.92,
+  scale: 1,
+  transparent: false,
+  crop: null,
+  layerMode: 'all',
+  layerIds: [],
+  trim: false,
+  sidecar: true,
+  embedProject: true,
+};
+
+// JPEG has no alpha channel, so transparency only applies to the other formats
+export const supportsTransparency = (format: ExportFormat) => format !== 'jpeg';
+
+// Keep the region inside the canvas and at least one pixel in size
+export const clampCrop = (crop: Rect, size: Size): Rect => {
+  const x = Math.min(Math.max(0, Math.round(crop.x)), size.width - 1);
+  const y = Math.min(Math.max(0, Math.round(crop.y)), size.height - 1);
+  return {
+    x,
+    y,
+    width: Math.min(Math.max(1, Math.round(crop.width)), size.width - x),
+    height: Math.min(Math.max(1, Math.round(crop.height)), size.height - y),
+  };
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat = 'png', quality: number = 1): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')), EXPORT_MIME_TYPES[format], quality);
+  });
+};
+
+// Long enough for the browser to start reading the file, even behind a queue of Export All downloads
+const DOWNLOAD_URL_LIFETIME = 30000;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
   const link = document.createElement('a');
   link.download = filename;
-  link.href = canvas.toDataURL('image/png', 1.0);
+  link.href = URL.createObjectURL(blob);
   link.click();
+  // Browsers start the download some time after click() returns, so the URL is kept alive a while
+  setTimeout(() => URL.revokeObjectURL(link.href), DOWNLOAD_URL_LIFETIME);
+};
+
+export const downloadCanvas = async (canvas: HTMLCanvasElement, filename: string, format: ExportFormat = 'png', quality: number = 1) => {
+  downloadBlob(await canvasToBlob(canvas, format, quality), filename);
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+// Keyboard shortcuts stay out of the way while the user is typing
+export const isTextEntryTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable);
+};
+
+// Keys that belong to the focused element rather than the canvas: anything in a dialog, and any form control
+// in a side panel (Space presses a button, arrows move through a list)
+export const ownsKeyboard = (target: EventTarget | null) => {
+  if (isTextEntryTarget(target)) return true;
+  const el = target as HTMLElement | null;
+  if (document.querySelector('[role="dialog"][aria-modal="true"]')) return true; // Even with nothing in it focused
+  if (!el || typeof el.closest !== 'function') return false;
+  return !!el.closest('[role="dialog"]') || (el.tagName === 'BUTTON' && !!el.closest('aside'));
 };
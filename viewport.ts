@@ -0,0 +1,33 @@
+import { Position, Rect, Size } from './types.ts';
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 4;
+// The editor canvas is allocated at full zoomed size, so large pages get a lower ceiling (64 MB of pixels)
+export const MAX_CANVAS_PIXELS = 4096 * 4096;
+export const ZOOM_STEP = 0.1;
+
+// Room left around a fitted canvas: the viewport padding plus rulers
+export const FIT_PADDING = 52;
+
+// What the toolbar asks the canvas view to show. The id makes a repeated request count again.
+export type ViewFit = 'screen' | 'actual' | 'selection';
+
+export interface ViewRequest {
+  fit: ViewFit;
+  id: number;
+}
+
+export const maxZoomFor = (page: Size) => Math.min(MAX_ZOOM, Math.sqrt(MAX_CANVAS_PIXELS / Math.max(1, page.width * page.height)));
+
+export const clampZoom = (zoom: number, page: Size) => Math.min(maxZoomFor(page), Math.max(MIN_ZOOM, zoom));
+
+// Largest zoom at which the area of the page fits the viewport with padding all round
+export const fitZoom = (area: Size, viewport: Size, page: Size, padding: number = FIT_PADDING) => clampZoom(Math.min(
+  (viewport.width - padding * 2) / Math.max(1, area.width),
+  (viewport.height - padding * 2) / Math.max(1, area.height)
+), page);
+
+// Wheel zoom factor. Trackpad pinches arrive as small Ctrl+wheel deltas, mouse wheels as large ones.
+export const wheelZoomFactor = (deltaY: number) => Math.exp(-Math.max(-100, Math.min(100, deltaY)) * 0.01);
+
+export const rectCenter = (r: Rect): Position => ({ x: r.x + r.width / 2, y: r.y + r.height / 2 });